@@ -0,0 +1,227 @@
+import { appendFile, mkdir, readFile, rename, rm, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { currentContext } from "./context.js";
+import { ExecutedStatement } from "./database.js";
+import { SqlSyntaxError, tokenize } from "./sql/lexer.js";
+
+/**
+ * One line of the audit file.
+ */
+export interface AuditEntry {
+  timestamp: string;
+  tool?: string;
+  session?: string;
+  /** Name of the access policy of the authenticated HTTP client. */
+  client?: string;
+  connection: string;
+  sql: string;
+  /** Bound parameters, or "[REDACTED]" placeholders when redaction is on. */
+  params: unknown[];
+  durationMs: number;
+  rowCount: number | null;
+  sqlstate?: string;
+  error?: string;
+}
+
+export interface AuditOptions {
+  path: string;
+  /** Rotate the file once it grows past this size. */
+  maxBytes: number;
+  /** Number of rotated files (audit.jsonl.1, .2, …) to keep. */
+  maxFiles: number;
+  redactParams: boolean;
+}
+
+export interface AuditFilter {
+  tool?: string;
+  session?: string;
+  client?: string;
+  connection?: string;
+  /** Case-insensitive substring of the normalized SQL. */
+  contains?: string;
+  errorsOnly?: boolean;
+  /** Only entries at or after this ISO timestamp. */
+  since?: string;
+  limit?: number;
+}
+
+const DEFAULT_AUDIT_PATH = join(homedir(), ".config", "db-explorer", "audit.jsonl");
+
+/**
+ * Append-only JSONL log of every statement sent to PostgreSQL, rotated by size.
+ * Writes are queued so that entries never interleave and never delay a query.
+ */
+export class AuditLog {
+  private size: number | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private options: AuditOptions) {}
+
+  /**
+   * Build an audit log from the environment, or null if DB_EXPLORER_AUDIT_LOG is "off".
+   */
+  static fromEnv(): AuditLog | null {
+    const path = process.env.DB_EXPLORER_AUDIT_LOG;
+    if (path?.toLowerCase() === "off") {
+      return null;
+    }
+
+    const read = (name: string, fallback: number) => {
+      const value = Number(process.env[name]);
+      return Number.isInteger(value) && value > 0 ? value : fallback;
+    };
+
+    return new AuditLog({
+      path: path || DEFAULT_AUDIT_PATH,
+      maxBytes: read("DB_EXPLORER_AUDIT_MAX_BYTES", 10 * 1024 * 1024),
+      maxFiles: read("DB_EXPLORER_AUDIT_MAX_FILES", 5),
+      redactParams: process.env.DB_EXPLORER_AUDIT_REDACT_PARAMS === "true",
+    });
+  }
+
+  /**
+   * Record a statement run on a connection, tagged with the current tool call.
+   */
+  record(connection: string, statement: ExecutedStatement): void {
+    const context = currentContext();
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      tool: context?.tool,
+      session: context?.sessionId,
+      client: context?.client,
+      connection,
+      sql: normalizeSql(statement.sql),
+      params: this.options.redactParams
+        ? (statement.params ?? []).map(() => "[REDACTED]")
+        : statement.params ?? [],
+      durationMs: statement.durationMs,
+      rowCount: statement.rowCount,
+      sqlstate: statement.sqlstate,
+      error: statement.error,
+    };
+
+    const line = JSON.stringify(entry) + "\n";
+    this.pending = this.pending
+      .then(() => this.append(line))
+      .catch((error) => console.error("Failed to write audit log:", error));
+  }
+
+  /**
+   * Find the most recent entries matching a filter, newest first.
+   */
+  async search(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    await this.pending;
+
+    const limit = filter.limit ?? 50;
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    if (since !== undefined && Number.isNaN(since)) {
+      throw new Error(`Invalid timestamp: ${filter.since}`);
+    }
+    const contains = filter.contains?.toLowerCase();
+
+    const matches: AuditEntry[] = [];
+    for (const file of this.files()) {
+      let text: string;
+      try {
+        text = await readFile(file, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+
+      const lines = text.split("\n");
+      for (let i = lines.length - 1; i >= 0; i--) {
+        if (!lines[i]) continue;
+
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(lines[i]);
+        } catch {
+          continue;
+        }
+
+        // Files and lines are read newest first, so older entries can stop the search
+        if (since !== undefined && Date.parse(entry.timestamp) < since) {
+          return matches;
+        }
+        if (filter.tool && entry.tool !== filter.tool) continue;
+        if (filter.session && entry.session !== filter.session) continue;
+        if (filter.client && entry.client !== filter.client) continue;
+        if (filter.connection && entry.connection !== filter.connection) continue;
+        if (filter.errorsOnly && !entry.sqlstate && !entry.error) continue;
+        if (contains && !entry.sql.toLowerCase().includes(contains)) continue;
+
+        matches.push(entry);
+        if (matches.length >= limit) return matches;
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * The current file followed by the rotated ones, newest first.
+   */
+  private files(): string[] {
+    const { path, maxFiles } = this.options;
+    return [path, ...Array.from({ length: maxFiles }, (_, i) => `${path}.${i + 1}`)];
+  }
+
+  private async append(line: string): Promise<void> {
+    const { path, maxBytes } = this.options;
+
+    if (this.size === null) {
+      await mkdir(dirname(path), { recursive: true });
+      this.size = await stat(path).then(
+        (s) => s.size,
+        () => 0
+      );
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > maxBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(path, line, { mode: 0o600 });
+    this.size += bytes;
+  }
+
+  /**
+   * Shift audit.jsonl → audit.jsonl.1 → audit.jsonl.2 …, dropping the oldest.
+   */
+  private async rotate(): Promise<void> {
+    const files = this.files();
+    await rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      await rename(files[i], files[i + 1]).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Normalize SQL for the audit log: comments are dropped and whitespace is
+ * collapsed, so that the same statement always logs the same way.
+ * Literals are kept as written.
+ */
+export function normalizeSql(sql: string): string {
+  try {
+    let out = "";
+    let glue = true;
+    for (const token of tokenize(sql)) {
+      const attachLeft = [",", ")", "]", ".", "::", ";"].includes(token.text);
+      out += glue || attachLeft ? token.text : ` ${token.text}`;
+      glue = ["(", "[", ".", "::"].includes(token.text);
+    }
+    return out;
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      return sql.replace(/\s+/g, " ").trim();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,197 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { NextFunction, Request, Response } from "express";
+import { parse as parseYaml } from "yaml";
+
+/**
+ * What a token may do. Omitted lists mean "no restriction".
+ */
+export interface AccessPolicy {
+  /** Name of the token, used in logs and error messages. */
+  name: string;
+  /** Connection profiles the token may connect with. Ad-hoc connections are refused when set. */
+  profiles?: string[];
+  /** Tools the token may call ("*" allows all). */
+  tools?: string[];
+  /** Whether explain_query may run with analyze: true (default: false). */
+  allowAnalyze?: boolean;
+}
+
+/**
+ * A token entry in the auth config. Either the token itself or its
+ * SHA-256 hex digest may be stored.
+ */
+export interface TokenEntry extends AccessPolicy {
+  token?: string;
+  tokenSha256?: string;
+}
+
+/**
+ * Thrown when a call is not permitted by the session's access policy.
+ * Surfaces to the client as an MCP error result.
+ */
+export class AuthorizationError extends McpError {
+  constructor(message: string) {
+    super(ErrorCode.InvalidRequest, `Unauthorized: ${message}`);
+    this.name = "AuthorizationError";
+  }
+}
+
+/**
+ * Resolves bearer tokens / API keys to access policies.
+ */
+export class Authenticator {
+  private entries: { digest: Buffer; policy: AccessPolicy }[];
+
+  constructor(tokens: TokenEntry[]) {
+    this.entries = tokens.map((entry) => {
+      const { token, tokenSha256, ...policy } = entry;
+      if (!policy.name) {
+        throw new Error("Every token in the auth config needs a name.");
+      }
+      if (!token && !tokenSha256) {
+        throw new Error(`Token "${policy.name}" has neither token nor tokenSha256.`);
+      }
+      return {
+        digest: tokenSha256 ? Buffer.from(tokenSha256, "hex") : sha256(token!),
+        policy,
+      };
+    });
+  }
+
+  /**
+   * Load tokens from a JSON or YAML file holding a top-level `tokens` list.
+   */
+  static async fromFile(path: string): Promise<Authenticator> {
+    const text = await readFile(path, "utf8");
+    const ext = extname(path).toLowerCase();
+    const data = (ext === ".yaml" || ext === ".yml"
+      ? parseYaml(text)
+      : JSON.parse(text)) as { tokens?: TokenEntry[] };
+
+    if (!Array.isArray(data?.tokens) || data.tokens.length === 0) {
+      throw new Error(`Auth config "${path}" defines no tokens.`);
+    }
+    return new Authenticator(data.tokens);
+  }
+
+  /**
+   * Find the policy for a presented token, or null if it is unknown.
+   */
+  authenticate(token: string): AccessPolicy | null {
+    const digest = sha256(token);
+    for (const entry of this.entries) {
+      if (entry.digest.length === digest.length && timingSafeEqual(entry.digest, digest)) {
+        return entry.policy;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Express middleware: require a valid `Authorization: Bearer <token>` or
+   * `X-API-Key: <token>` header and attach the token's policy as `req.auth`.
+   */
+  middleware() {
+    return (req: Request & { auth?: AuthInfo }, res: Response, next: NextFunction) => {
+      const header = req.header("authorization");
+      const token = header?.match(/^Bearer\s+(.+)$/i)?.[1] ?? req.header("x-api-key");
+
+      const policy = token ? this.authenticate(token) : null;
+      if (!token || !policy) {
+        res
+          .status(401)
+          .set("WWW-Authenticate", 'Bearer realm="db-explorer"')
+          .json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: token ? "Invalid token" : "Missing bearer token or API key" },
+            id: null,
+          });
+        return;
+      }
+
+      req.auth = { token, clientId: policy.name, scopes: [], extra: { policy } };
+      next();
+    };
+  }
+}
+
+/**
+ * Get the access policy attached to an authenticated request.
+ */
+export function policyOf(auth: AuthInfo | undefined): AccessPolicy | undefined {
+  return auth?.extra?.policy as AccessPolicy | undefined;
+}
+
+/**
+ * Check a tool call against an access policy. Throws AuthorizationError
+ * if the call is not permitted. No policy means unrestricted (stdio mode).
+ */
+export function authorizeToolCall(
+  policy: AccessPolicy | undefined,
+  tool: string,
+  args: Record<string, unknown>
+): void {
+  if (!policy) return;
+
+  if (policy.tools && !policy.tools.includes("*") && !policy.tools.includes(tool)) {
+    throw new AuthorizationError(
+      `token "${policy.name}" may not call tool "${tool}".`
+    );
+  }
+
+  if (tool === "connect" && policy.profiles) {
+    const profile = args.profile as string | undefined;
+    if (!profile) {
+      throw new AuthorizationError(
+        `token "${policy.name}" may only connect using a profile (${policy.profiles.join(", ")}).`
+      );
+    }
+    if (!policy.profiles.includes("*") && !policy.profiles.includes(profile)) {
+      throw new AuthorizationError(
+        `token "${policy.name}" may not use profile "${profile}".`
+      );
+    }
+    const overrides = Object.keys(args).filter(
+      (k) => k !== "profile" && k !== "alias" && args[k] !== undefined
+    );
+    if (overrides.length > 0) {
+      throw new AuthorizationError(
+        `token "${policy.name}" may not override profile settings (${overrides.join(", ")}).`
+      );
+    }
+  }
+
+  if (tool === "explain_query" && args.analyze === true && !policy.allowAnalyze) {
+    throw new AuthorizationError(
+      `token "${policy.name}" may not run EXPLAIN ANALYZE.`
+    );
+  }
+}
+
+/**
+ * Check a resource read or listing against an access policy. A resource
+ * serves the same data as some tools, so the token must be allowed to call
+ * every one of them.
+ */
+export function authorizeResourceRead(
+  policy: AccessPolicy | undefined,
+  resource: string,
+  tools: string[]
+): void {
+  if (!policy?.tools || policy.tools.includes("*")) return;
+
+  const denied = tools.filter((tool) => !policy.tools!.includes(tool));
+  if (denied.length > 0) {
+    throw new AuthorizationError(
+      `token "${policy.name}" may not read resource "${resource}" (requires tool ${denied.join(", ")}).`
+    );
+  }
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
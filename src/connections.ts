@@ -0,0 +1,145 @@
+import { AuditLog } from "./audit.js";
+import { ConnectionConfig, DatabaseManager, SslMode, timeoutsFromEnv } from "./database.js";
+
+export interface ConnectionSummary {
+  alias: string;
+  active: boolean;
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  sslmode: SslMode;
+}
+
+/**
+ * Registry of named database connections.
+ * Several connections can be live at once; one of them is the active
+ * connection used by tools that don't name a connection explicitly.
+ */
+export class ConnectionRegistry {
+  private connections = new Map<string, DatabaseManager>();
+  private activeAlias: string | null = null;
+
+  constructor(private audit: AuditLog | null = null) {}
+
+  /**
+   * Open a connection under the given alias and make it the active one.
+   * An existing connection with the same alias is replaced.
+   */
+  async connect(alias: string, config: ConnectionConfig): Promise<void> {
+    const audit = this.audit;
+    const db = new DatabaseManager(
+      timeoutsFromEnv(),
+      audit ? (statement) => audit.record(alias, statement) : undefined
+    );
+    await db.connect(config);
+
+    const previous = this.connections.get(alias);
+    this.connections.set(alias, db);
+    this.activeAlias = alias;
+
+    if (previous) {
+      await previous.disconnect();
+    }
+  }
+
+  /**
+   * Close a connection (the active one if no alias is given).
+   */
+  async disconnect(alias?: string): Promise<string> {
+    const target = this.resolveAlias(alias);
+    const db = this.connections.get(target)!;
+
+    this.connections.delete(target);
+    if (this.activeAlias === target) {
+      this.activeAlias = this.connections.keys().next().value ?? null;
+    }
+
+    await db.disconnect();
+    return target;
+  }
+
+  /**
+   * Close every open connection.
+   */
+  async disconnectAll(): Promise<void> {
+    const dbs = [...this.connections.values()];
+    this.connections.clear();
+    this.activeAlias = null;
+    await Promise.all(dbs.map((db) => db.disconnect()));
+  }
+
+  /**
+   * Make the named connection the active one.
+   */
+  switchTo(alias: string): void {
+    this.activeAlias = this.resolveAlias(alias);
+  }
+
+  /**
+   * Get the database manager for a connection (the active one if no alias is given).
+   */
+  get(alias?: string): DatabaseManager {
+    return this.connections.get(this.resolveAlias(alias))!;
+  }
+
+  /**
+   * Check if a connection with the given alias is open.
+   */
+  has(alias: string): boolean {
+    return this.connections.has(alias);
+  }
+
+  /**
+   * Get the alias of the active connection.
+   */
+  getActiveAlias(): string | null {
+    return this.activeAlias;
+  }
+
+  /**
+   * List all open connections. Passwords are never included.
+   */
+  list(): ConnectionSummary[] {
+    const summaries: ConnectionSummary[] = [];
+    for (const [alias, db] of this.connections) {
+      const info = db.getConnectionInfo();
+      if (!info) continue;
+      summaries.push({
+        alias,
+        active: alias === this.activeAlias,
+        host: info.host,
+        port: info.port,
+        database: info.database,
+        user: info.user,
+        sslmode: info.sslmode ?? "disable",
+      });
+    }
+    return summaries;
+  }
+
+  /**
+   * Resolve an optional alias to an open connection. Throws if there is none.
+   */
+  private resolveAlias(alias?: string): string {
+    if (alias === undefined) {
+      if (this.activeAlias === null) {
+        throw new Error(
+          "Not connected to any database. Use the 'connect' tool first."
+        );
+      }
+      return this.activeAlias;
+    }
+
+    if (!this.connections.has(alias)) {
+      const known = [...this.connections.keys()];
+      throw new Error(
+        `No connection named "${alias}". ` +
+          (known.length > 0
+            ? `Open connections: ${known.join(", ")}.`
+            : "Use the 'connect' tool first.")
+      );
+    }
+    return alias;
+  }
+}
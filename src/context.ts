@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Per-call context for the tool currently executing.
+ * Lets the database layer see which tool and session issued a statement,
+ * and whether the client has cancelled the call, without threading those
+ * through every tool method.
+ */
+export interface RequestContext {
+  tool: string;
+  sessionId: string;
+  /** Access policy name of the authenticated HTTP client, if any. */
+  client?: string;
+  /** Aborted when the client sends a cancellation notification. */
+  signal?: AbortSignal;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context.
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the tool call in progress, if any.
+ */
+export function currentContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,222 @@
+import { randomBytes } from "node:crypto";
+import { DatabaseManager, QueryTimeouts } from "./database.js";
+import { MaskingPolicy } from "./masking.js";
+import { ColumnInfo, ResultSerializer } from "./serialization.js";
+
+/**
+ * One page of rows read from a cursor.
+ */
+export interface CursorPage {
+  columns: ColumnInfo[];
+  rows: Record<string, unknown>[];
+  /** True if the page stopped early because it reached the response byte cap. */
+  truncatedByBytes: boolean;
+  /** Handle for fetch_more; absent once every row has been returned. */
+  cursor?: string;
+  cursorExpiresAt?: string;
+}
+
+export interface CursorLimits {
+  /** Close a cursor after this long without a fetch. */
+  ttlMs: number;
+  /** Open cursors per session; opening another closes the least recently used. */
+  maxOpen: number;
+  /** Approximate cap on the JSON size of the rows in one page. */
+  maxResponseBytes: number;
+}
+
+interface OpenCursor {
+  db: DatabaseManager;
+  name: string;
+  /** Columns as described by the server, before masking. */
+  columns: ColumnInfo[];
+  /** Rows fetched from the server (decoded and masked) but not yet returned. */
+  buffered: Record<string, unknown>[];
+  exhausted: boolean;
+  timeouts: QueryTimeouts;
+  expiresAt: number;
+  timer?: NodeJS.Timeout;
+}
+
+/** Extra idle time the server allows a cursor's transaction beyond the TTL. */
+const SERVER_IDLE_GRACE_MS = 10_000;
+
+/**
+ * Read cursor limits from the environment.
+ */
+export function cursorLimitsFromEnv(): CursorLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+  return {
+    ttlMs: read("DB_EXPLORER_CURSOR_TTL_MS", 120_000),
+    maxOpen: read("DB_EXPLORER_MAX_OPEN_CURSORS", 3),
+    maxResponseBytes: read("DB_EXPLORER_MAX_RESPONSE_BYTES", 256 * 1024),
+  };
+}
+
+/**
+ * Server-side cursors opened by one session, keyed by an opaque handle.
+ * Each open cursor holds a pooled client and a read-only transaction, so
+ * cursors expire after a period without fetches and their number is capped.
+ */
+export class CursorStore {
+  private cursors = new Map<string, OpenCursor>();
+
+  constructor(
+    private limits: CursorLimits = cursorLimitsFromEnv(),
+    private masking: MaskingPolicy | null = null
+  ) {}
+
+  /**
+   * Declare a cursor for a read-only query and read its first page.
+   * The handle is only kept if more rows remain.
+   */
+  async open(
+    db: DatabaseManager,
+    sql: string,
+    params: unknown[] | undefined,
+    pageSize: number,
+    timeouts: QueryTimeouts = {}
+  ): Promise<CursorPage> {
+    const name = await db.declareCursor(
+      sql,
+      params,
+      this.limits.ttlMs + SERVER_IDLE_GRACE_MS,
+      timeouts
+    );
+    const cursor: OpenCursor = {
+      db,
+      name,
+      columns: [],
+      buffered: [],
+      exhausted: false,
+      timeouts,
+      expiresAt: 0,
+    };
+
+    const handle = randomBytes(12).toString("hex");
+    return this.readPage(handle, cursor, pageSize);
+  }
+
+  /**
+   * Read the next page of a cursor.
+   */
+  async fetchMore(handle: string, pageSize: number): Promise<CursorPage> {
+    const cursor = this.cursors.get(handle);
+    if (!cursor) {
+      throw new Error(
+        `Unknown or expired cursor "${handle}". Cursors close after ${this.limits.ttlMs}ms ` +
+          `without a fetch; run the query again to start over.`
+      );
+    }
+    return this.readPage(handle, cursor, pageSize);
+  }
+
+  /**
+   * Close a cursor and release its connection.
+   */
+  async close(handle: string): Promise<boolean> {
+    const cursor = this.cursors.get(handle);
+    if (!cursor) return false;
+
+    this.cursors.delete(handle);
+    clearTimeout(cursor.timer);
+    await cursor.db.closeCursor(cursor.name);
+    return true;
+  }
+
+  /**
+   * Close every cursor of the session.
+   */
+  async closeAll(): Promise<void> {
+    await Promise.all([...this.cursors.keys()].map((handle) => this.close(handle)));
+  }
+
+  private async readPage(
+    handle: string,
+    cursor: OpenCursor,
+    pageSize: number
+  ): Promise<CursorPage> {
+    const size = Math.max(1, Math.floor(pageSize));
+
+    // Fetch one row beyond the page so we know whether more remain
+    if (cursor.buffered.length <= size && !cursor.exhausted) {
+      const want = size + 1 - cursor.buffered.length;
+      try {
+        const result = await cursor.db.fetchCursor(cursor.name, want, cursor.timeouts);
+        const serializer = ResultSerializer.for(cursor.db);
+        if (cursor.columns.length === 0) {
+          cursor.columns = await serializer.describeColumns(result.fields);
+        }
+        const rows = await serializer.decodeRows(result.fields, result.rows);
+        cursor.buffered.push(...(this.masking ? this.masking.apply(cursor.columns, rows).rows : rows));
+        if (result.rows.length < want) {
+          cursor.exhausted = true;
+          await cursor.db.closeCursor(cursor.name);
+        }
+      } catch (error) {
+        this.forget(handle);
+        await cursor.db.closeCursor(cursor.name);
+        throw error;
+      }
+    }
+
+    const rows: Record<string, unknown>[] = [];
+    let bytes = 0;
+    let truncatedByBytes = false;
+    while (rows.length < size && cursor.buffered.length > 0) {
+      const rowBytes = Buffer.byteLength(JSON.stringify(cursor.buffered[0])) + 2;
+      if (rows.length > 0 && bytes + rowBytes > this.limits.maxResponseBytes) {
+        truncatedByBytes = true;
+        break;
+      }
+      bytes += rowBytes;
+      rows.push(cursor.buffered.shift()!);
+    }
+
+    const page: CursorPage = {
+      columns: this.masking ? this.masking.apply(cursor.columns, []).columns : cursor.columns,
+      rows,
+      truncatedByBytes,
+    };
+
+    if (cursor.buffered.length === 0 && cursor.exhausted) {
+      this.forget(handle);
+      return page;
+    }
+
+    this.keep(handle, cursor);
+    page.cursor = handle;
+    page.cursorExpiresAt = new Date(cursor.expiresAt).toISOString();
+    return page;
+  }
+
+  /**
+   * Store or refresh a cursor and restart its expiry timer, closing the least
+   * recently used cursor if the session is over its limit.
+   */
+  private keep(handle: string, cursor: OpenCursor): void {
+    clearTimeout(cursor.timer);
+    this.cursors.delete(handle);
+    this.cursors.set(handle, cursor);
+
+    cursor.expiresAt = Date.now() + this.limits.ttlMs;
+    cursor.timer = setTimeout(() => void this.close(handle), this.limits.ttlMs);
+    cursor.timer.unref();
+
+    if (this.cursors.size > this.limits.maxOpen) {
+      const oldest = this.cursors.keys().next().value!;
+      void this.close(oldest);
+    }
+  }
+
+  private forget(handle: string): void {
+    const cursor = this.cursors.get(handle);
+    if (cursor) {
+      clearTimeout(cursor.timer);
+      this.cursors.delete(handle);
+    }
+  }
+}
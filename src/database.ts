@@ -1,12 +1,135 @@
-import { Pool, PoolConfig, QueryResult } from "pg";
+import { randomUUID } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { isIP } from "node:net";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { ConnectionOptions, TLSSocket } from "node:tls";
+import { Client, CustomTypesConfig, Pool, PoolClient, PoolConfig, QueryArrayResult, QueryResult } from "pg";
+import { currentContext } from "./context.js";
+
+/**
+ * libpq-style TLS modes.
+ * - disable: plain TCP
+ * - require: encrypt, but only verify the certificate if a root CA is configured
+ * - verify-ca: encrypt and verify the certificate chain
+ * - verify-full: verify-ca plus check that the certificate matches the server name
+ */
+export type SslMode = "disable" | "require" | "verify-ca" | "verify-full";
+
+export const SSL_MODES = ["disable", "require", "verify-ca", "verify-full"] as const;
 
 export interface ConnectionConfig {
   host: string;
   port: number;
   database: string;
   user: string;
-  password: string;
-  ssl?: boolean;
+  password?: string;
+  sslmode?: SslMode;
+  /** Path to the CA bundle used to verify the server certificate. */
+  sslrootcert?: string;
+  /** Path to the client certificate. */
+  sslcert?: string;
+  /** Path to the client certificate's private key. */
+  sslkey?: string;
+  /** Server name expected in the certificate (defaults to host). */
+  sslservername?: string;
+}
+
+export interface TlsStatus {
+  enabled: boolean;
+  sslmode: SslMode;
+  protocol?: string | null;
+  cipher?: string;
+  certificateVerified?: boolean;
+  verificationError?: string;
+  serverCertificate?: {
+    subject: string;
+    issuer: string;
+    validTo: string;
+  };
+}
+
+/**
+ * Server-side time limits for a query, in milliseconds. 0 disables a limit.
+ */
+export interface QueryTimeouts {
+  statementTimeoutMs?: number;
+  lockTimeoutMs?: number;
+  idleInTransactionTimeoutMs?: number;
+}
+
+export interface QueryOptions extends QueryTimeouts {
+  /** Cancels the running statement when aborted (defaults to the tool call's signal). */
+  signal?: AbortSignal;
+}
+
+/**
+ * A statement that was sent to the server, as reported to the statement listener.
+ */
+export interface ExecutedStatement {
+  sql: string;
+  params?: unknown[];
+  durationMs: number;
+  rowCount: number | null;
+  /** SQLSTATE of the error, if the statement failed. */
+  sqlstate?: string;
+  error?: string;
+}
+
+export type StatementListener = (statement: ExecutedStatement) => void;
+
+/**
+ * The client handed to a transaction callback. Statements run through it
+ * are reported to the statement listener.
+ */
+export interface TransactionClient {
+  query<T extends object = Record<string, unknown>>(
+    sql: string,
+    params?: unknown[]
+  ): Promise<QueryResult<T>>;
+  /** Like query, but each row is an array of values in column order, so repeated names are kept. */
+  queryArrays(sql: string, params?: unknown[]): Promise<QueryArrayResult>;
+}
+
+export interface TransactionOptions extends QueryOptions {
+  readOnly?: boolean;
+  /** Commit on success (default). When false, the transaction is always rolled back. */
+  commit?: boolean;
+}
+
+/**
+ * Read the global query limits from the environment.
+ * Per-call limits may lower these but never raise them.
+ */
+export function timeoutsFromEnv(): Required<QueryTimeouts> {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+      ? Math.floor(value)
+      : fallback;
+  };
+  return {
+    statementTimeoutMs: read("DB_EXPLORER_STATEMENT_TIMEOUT_MS", 30_000),
+    lockTimeoutMs: read("DB_EXPLORER_LOCK_TIMEOUT_MS", 5_000),
+    idleInTransactionTimeoutMs: read("DB_EXPLORER_IDLE_IN_TRANSACTION_TIMEOUT_MS", 60_000),
+  };
+}
+
+/**
+ * A query stopped by a timeout or by client cancellation.
+ */
+export class QueryInterruptedError extends Error {
+  constructor(
+    public readonly reason:
+      | "statement_timeout"
+      | "lock_timeout"
+      | "idle_in_transaction_timeout"
+      | "cancelled",
+    message: string
+  ) {
+    super(message);
+    this.name = "QueryInterruptedError";
+  }
 }
 
 /**
@@ -16,6 +139,12 @@ export interface ConnectionConfig {
 export class DatabaseManager {
   private pool: Pool | null = null;
   private config: ConnectionConfig | null = null;
+  private cursors = new Map<string, { client: PoolClient; limits: Required<QueryTimeouts> }>();
+
+  constructor(
+    private limits: Required<QueryTimeouts> = timeoutsFromEnv(),
+    private onStatement?: StatementListener
+  ) {}
 
   /**
    * Connect to a PostgreSQL database.
@@ -31,7 +160,7 @@ export class DatabaseManager {
       database: config.database,
       user: config.user,
       password: config.password,
-      ssl: config.ssl ? { rejectUnauthorized: false } : undefined,
+      ssl: await buildSslOptions(config),
       max: 5,
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 10000,
@@ -49,6 +178,7 @@ export class DatabaseManager {
    * Disconnect from the database.
    */
   async disconnect(): Promise<void> {
+    await Promise.all([...this.cursors.keys()].map((name) => this.closeCursor(name)));
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -71,28 +201,201 @@ export class DatabaseManager {
   }
 
   /**
-   * Execute a read-only query. Wraps in a read-only transaction for safety.
+   * Report the negotiated TLS state of a pooled connection.
+   */
+  async getTlsStatus(): Promise<TlsStatus> {
+    this.ensureConnected();
+
+    const sslmode = this.config!.sslmode ?? "disable";
+    const client = await this.pool!.connect();
+    try {
+      const socket = (client as unknown as Client).connection.stream;
+      if (!(socket instanceof TLSSocket)) {
+        return { enabled: false, sslmode };
+      }
+
+      const cert = socket.getPeerCertificate();
+      return {
+        enabled: true,
+        sslmode,
+        protocol: socket.getProtocol(),
+        cipher: socket.getCipher()?.name,
+        certificateVerified: socket.authorized,
+        verificationError: socket.authorizationError
+          ? String(socket.authorizationError)
+          : undefined,
+        serverCertificate: cert?.subject
+          ? {
+              subject: formatDistinguishedName(cert.subject),
+              issuer: formatDistinguishedName(cert.issuer),
+              validTo: cert.valid_to,
+            }
+          : undefined,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Execute a read-only query. Wraps in a read-only transaction for safety,
+   * with statement, lock and idle-in-transaction limits set via SET LOCAL.
+   * Aborting the signal cancels the backend with pg_cancel_backend.
    */
   async queryReadOnly<T extends object = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options: QueryOptions = {}
   ): Promise<QueryResult<T>> {
+    return this.transaction((client) => client.query<T>(sql, params), {
+      ...options,
+      readOnly: true,
+    });
+  }
+
+  /**
+   * Run a function inside a transaction on a dedicated client, with the same
+   * limits and cancellation as queryReadOnly. The transaction is committed
+   * when the function succeeds, unless `commit` is false, and rolled back
+   * otherwise.
+   */
+  async transaction<T>(
+    fn: (client: TransactionClient) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
     this.ensureConnected();
 
+    const limits = this.effectiveTimeouts(options);
+    const signal = options.signal ?? currentContext()?.signal;
+    if (signal?.aborted) {
+      throw new QueryInterruptedError("cancelled", "Query was cancelled by the client.");
+    }
+
     const client = await this.pool!.connect();
+    const unwatch = this.cancelOnAbort(client, signal);
+
     try {
-      await client.query("BEGIN TRANSACTION READ ONLY");
-      const result = await client.query<T>(sql, params);
-      await client.query("COMMIT");
+      await client.query(options.readOnly ? "BEGIN TRANSACTION READ ONLY" : "BEGIN");
+      await client.query(setLocalTimeouts(limits));
+      const result = await fn({
+        query: <R extends object>(sql: string, params?: unknown[]) =>
+          this.observe(sql, params, () => client.query<R>(sql, params)),
+        queryArrays: (sql: string, params?: unknown[]) =>
+          this.observe(sql, params, () => client.query({ text: sql, values: params, rowMode: "array" })),
+      });
+      await client.query(options.commit === false ? "ROLLBACK" : "COMMIT");
       return result;
     } catch (error) {
-      await client.query("ROLLBACK");
-      throw error;
+      await client.query("ROLLBACK").catch(() => undefined);
+      throw interpretError(error, limits, signal);
     } finally {
+      unwatch();
       client.release();
     }
   }
 
+  /**
+   * Declare a server-side cursor for a read-only query. The cursor lives in
+   * a read-only transaction on a client that stays checked out of the pool
+   * until closeCursor. Between fetches the transaction may sit idle for up
+   * to `idleMs`, which replaces the idle-in-transaction limit for it.
+   * Returns the cursor name.
+   */
+  async declareCursor(
+    sql: string,
+    params: unknown[] | undefined,
+    idleMs: number,
+    options: QueryOptions = {}
+  ): Promise<string> {
+    this.ensureConnected();
+
+    const limits = { ...this.effectiveTimeouts(options), idleInTransactionTimeoutMs: idleMs };
+    const signal = options.signal ?? currentContext()?.signal;
+    if (signal?.aborted) {
+      throw new QueryInterruptedError("cancelled", "Query was cancelled by the client.");
+    }
+
+    const name = `db_explorer_${randomUUID().replace(/-/g, "")}`;
+    const declare = `DECLARE ${name} NO SCROLL CURSOR FOR ${sql}`;
+    const client = await this.pool!.connect();
+    const unwatch = this.cancelOnAbort(client, signal);
+
+    try {
+      await client.query("BEGIN TRANSACTION READ ONLY");
+      await client.query(setLocalTimeouts(limits));
+      await client.query(CURSOR_OUTPUT_SETTINGS);
+      await this.observe(declare, params, () => client.query(declare, params));
+    } catch (error) {
+      await client.query("ROLLBACK").catch(() => undefined);
+      client.release();
+      throw interpretError(error, limits, signal);
+    } finally {
+      unwatch();
+    }
+
+    // The server ends the session if the cursor outlives idleMs; a checked-out
+    // client has no pool error handler, so forget the cursor instead of crashing
+    client.on("error", () => {
+      if (this.cursors.delete(name)) client.release(true);
+    });
+    this.cursors.set(name, { client, limits });
+    return name;
+  }
+
+  /**
+   * Fetch the next rows from a cursor. Values are not parsed: each one is
+   * PostgreSQL's text output, for ResultSerializer to decode.
+   * If the fetch fails, the cursor is closed.
+   */
+  async fetchCursor<T extends object = Record<string, unknown>>(
+    name: string,
+    count: number,
+    options: QueryOptions = {}
+  ): Promise<QueryResult<T>> {
+    const cursor = this.cursors.get(name);
+    if (!cursor) {
+      throw new Error(`Cursor ${name} is closed.`);
+    }
+
+    const limits = {
+      ...this.effectiveTimeouts(options),
+      idleInTransactionTimeoutMs: cursor.limits.idleInTransactionTimeoutMs,
+    };
+    const signal = options.signal ?? currentContext()?.signal;
+    const unwatch = this.cancelOnAbort(cursor.client, signal);
+    const fetch = `FETCH FORWARD ${Math.max(1, Math.floor(count))} FROM ${name}`;
+
+    try {
+      if (signal?.aborted) {
+        throw new QueryInterruptedError("cancelled", "Query was cancelled by the client.");
+      }
+      await cursor.client.query(`SET LOCAL statement_timeout = ${limits.statementTimeoutMs}`);
+      return await this.observe(fetch, undefined, () =>
+        cursor.client.query<T>({ text: fetch, types: TEXT_VALUES })
+      );
+    } catch (error) {
+      await this.closeCursor(name);
+      throw interpretError(error, limits, signal);
+    } finally {
+      unwatch();
+    }
+  }
+
+  /**
+   * Close a cursor, end its transaction and return its client to the pool.
+   */
+  async closeCursor(name: string): Promise<void> {
+    const cursor = this.cursors.get(name);
+    if (!cursor) return;
+
+    this.cursors.delete(name);
+    const broken = await cursor.client.query("ROLLBACK").then(
+      () => false,
+      () => true
+    );
+    cursor.client.release(broken);
+  }
+
   /**
    * Execute a query (for write operations – use with caution).
    */
@@ -101,7 +404,87 @@ export class DatabaseManager {
     params?: unknown[]
   ): Promise<QueryResult<T>> {
     this.ensureConnected();
-    return this.pool!.query<T>(sql, params);
+    return this.observe(sql, params, () => this.pool!.query<T>(sql, params));
+  }
+
+  /**
+   * Run a statement and report it to the statement listener, whether it
+   * succeeds or fails.
+   */
+  private async observe<R extends QueryResult>(
+    sql: string,
+    params: unknown[] | undefined,
+    run: () => Promise<R>
+  ): Promise<R> {
+    if (!this.onStatement) return run();
+
+    const started = performance.now();
+    const report = (rowCount: number | null, error?: unknown) => {
+      try {
+        this.onStatement!({
+          sql,
+          params,
+          durationMs: Math.round((performance.now() - started) * 100) / 100,
+          rowCount,
+          sqlstate: (error as { code?: string } | undefined)?.code,
+          error: error instanceof Error ? error.message : undefined,
+        });
+      } catch (listenerError) {
+        console.error("Statement listener failed:", listenerError);
+      }
+    };
+
+    try {
+      const result = await run();
+      report(result.rowCount);
+      return result;
+    } catch (error) {
+      report(null, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Combine per-call limits with the global ones. A per-call limit can only
+   * tighten a global limit.
+   */
+  private effectiveTimeouts(options: QueryTimeouts): Required<QueryTimeouts> {
+    const pick = (perCall: number | undefined, global: number) => {
+      if (perCall === undefined || perCall <= 0) return global;
+      return global > 0 ? Math.min(perCall, global) : Math.floor(perCall);
+    };
+    return {
+      statementTimeoutMs: pick(options.statementTimeoutMs, this.limits.statementTimeoutMs),
+      lockTimeoutMs: pick(options.lockTimeoutMs, this.limits.lockTimeoutMs),
+      idleInTransactionTimeoutMs: pick(
+        options.idleInTransactionTimeoutMs,
+        this.limits.idleInTransactionTimeoutMs
+      ),
+    };
+  }
+
+  /**
+   * Cancel the client's running statement when the signal aborts.
+   * Returns a function that stops watching the signal.
+   */
+  private cancelOnAbort(client: PoolClient, signal?: AbortSignal): () => void {
+    if (!signal) return () => undefined;
+    const onAbort = () => void this.cancelBackend(client);
+    signal.addEventListener("abort", onAbort, { once: true });
+    return () => signal.removeEventListener("abort", onAbort);
+  }
+
+  /**
+   * Ask the server to cancel whatever the client's backend is running.
+   */
+  private async cancelBackend(client: PoolClient): Promise<void> {
+    const pid = (client as unknown as { processID?: number }).processID;
+    if (!this.pool || !pid) return;
+    try {
+      await this.pool.query("SELECT pg_cancel_backend($1)", [pid]);
+    } catch (error) {
+      console.error("Failed to cancel backend:", error);
+    }
   }
 
   /**
@@ -115,3 +498,135 @@ export class DatabaseManager {
     }
   }
 }
+
+/**
+ * Translate libpq sslmode semantics into node TLS options.
+ * Like libpq, ~/.postgresql/root.crt, postgresql.crt and postgresql.key are
+ * used when no explicit paths are configured, and verify-ca/verify-full fail
+ * without a CA bundle rather than falling back to the system trust store.
+ */
+async function buildSslOptions(
+  config: ConnectionConfig
+): Promise<ConnectionOptions | undefined> {
+  const mode = config.sslmode ?? "disable";
+  if (mode === "disable") return undefined;
+
+  const dir = join(homedir(), ".postgresql");
+  const ca = await readPemFile(config.sslrootcert, join(dir, "root.crt"));
+  const cert = await readPemFile(config.sslcert, join(dir, "postgresql.crt"));
+  const key = await readPemFile(config.sslkey, join(dir, "postgresql.key"));
+
+  if (mode !== "require" && ca === undefined) {
+    throw new Error(
+      `sslmode "${mode}" requires a CA bundle: set sslrootcert (or PGSSLROOTCERT) or provide ${join(dir, "root.crt")}.`
+    );
+  }
+
+  // SNI only carries host names; an IP address is checked against the
+  // certificate's IP entries instead.
+  const servername =
+    config.sslservername ?? (isIP(config.host) === 0 ? config.host : undefined);
+  const options: ConnectionOptions = { ca, cert, key, servername };
+
+  if (mode === "require" && ca === undefined) {
+    // Encrypt only, no certificate verification
+    options.rejectUnauthorized = false;
+  } else if (mode === "verify-full") {
+    options.rejectUnauthorized = true;
+  } else {
+    // verify-ca (or require with a CA): check the chain, not the host name
+    options.rejectUnauthorized = true;
+    options.checkServerIdentity = () => undefined;
+  }
+
+  return options;
+}
+
+/**
+ * Read a PEM file. An explicitly configured path must exist; the libpq
+ * default location is optional.
+ */
+async function readPemFile(
+  explicitPath: string | undefined,
+  defaultPath: string
+): Promise<string | undefined> {
+  if (explicitPath) {
+    try {
+      return await readFile(explicitPath, "utf8");
+    } catch (error) {
+      throw new Error(
+        `Cannot read TLS file "${explicitPath}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  try {
+    return await readFile(defaultPath, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+function formatDistinguishedName(dn: object): string {
+  return Object.entries(dn)
+    .map(([k, v]) => `${k}=${Array.isArray(v) ? v.join("+") : String(v)}`)
+    .join(", ");
+}
+
+/**
+ * Output settings for cursors, so that values have one predictable text form:
+ * ISO dates, ISO 8601 intervals, hex bytea and round-trippable floats.
+ */
+const CURSOR_OUTPUT_SETTINGS = [
+  "SET LOCAL DateStyle = 'ISO, YMD'",
+  "SET LOCAL IntervalStyle = 'iso_8601'",
+  "SET LOCAL bytea_output = 'hex'",
+  "SET LOCAL extra_float_digits = 3",
+].join("; ");
+
+/** Type parsers that leave every value as its text output. */
+const TEXT_VALUES: CustomTypesConfig = {
+  getTypeParser: (() => (value: string) => value) as unknown as CustomTypesConfig["getTypeParser"],
+};
+
+function setLocalTimeouts(limits: Required<QueryTimeouts>): string {
+  return [
+    `SET LOCAL statement_timeout = ${limits.statementTimeoutMs}`,
+    `SET LOCAL lock_timeout = ${limits.lockTimeoutMs}`,
+    `SET LOCAL idle_in_transaction_session_timeout = ${limits.idleInTransactionTimeoutMs}`,
+  ].join("; ");
+}
+
+/**
+ * Turn timeout and cancellation SQLSTATEs into a QueryInterruptedError
+ * with a clear message. Other errors pass through unchanged.
+ */
+function interpretError(
+  error: unknown,
+  limits: Required<QueryTimeouts>,
+  signal?: AbortSignal
+): unknown {
+  const code = (error as { code?: string })?.code;
+
+  if (code === "57014") {
+    return signal?.aborted
+      ? new QueryInterruptedError("cancelled", "Query was cancelled by the client.")
+      : new QueryInterruptedError(
+          "statement_timeout",
+          `Query exceeded the statement timeout of ${limits.statementTimeoutMs}ms and was cancelled.`
+        );
+  }
+  if (code === "55P03") {
+    return new QueryInterruptedError(
+      "lock_timeout",
+      `Query waited longer than the lock timeout of ${limits.lockTimeoutMs}ms for a lock.`
+    );
+  }
+  if (code === "25P03") {
+    return new QueryInterruptedError(
+      "idle_in_transaction_timeout",
+      `Transaction was idle longer than ${limits.idleInTransactionTimeoutMs}ms and was terminated.`
+    );
+  }
+  return error;
+}
@@ -0,0 +1,112 @@
+/**
+ * Output formats for query results.
+ * - json: pretty-printed array of row objects
+ * - json_compact: the same array on one line
+ * - csv: RFC 4180 with a header row
+ * - markdown: a GitHub-flavored table
+ * - ndjson: one JSON object per line
+ */
+export type ResultFormat = "json" | "json_compact" | "csv" | "markdown" | "ndjson";
+
+export const RESULT_FORMATS = ["json", "json_compact", "csv", "markdown", "ndjson"] as const;
+
+/** File extension and MIME type of each format. */
+export const FORMAT_FILE_TYPES: Record<ResultFormat, { extension: string; mimeType: string }> = {
+  json: { extension: "json", mimeType: "application/json" },
+  json_compact: { extension: "json", mimeType: "application/json" },
+  csv: { extension: "csv", mimeType: "text/csv" },
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  ndjson: { extension: "ndjson", mimeType: "application/x-ndjson" },
+};
+
+/**
+ * Turns rows into text one at a time, so large results can be streamed.
+ * The output is begin(), then row() for each row, then end().
+ */
+export interface RowEncoder {
+  begin(columns: string[]): string;
+  row(row: Record<string, unknown>): string;
+  end(): string;
+}
+
+/**
+ * Create a streaming encoder for a format. JSON is written one row per line.
+ */
+export function createEncoder(format: ResultFormat): RowEncoder {
+  let columns: string[] = [];
+  let count = 0;
+
+  switch (format) {
+    case "csv":
+      return {
+        begin: (cols) => {
+          columns = cols;
+          return csvLine(columns) + "\r\n";
+        },
+        row: (row) => csvLine(columns.map((c) => cellText(row[c]))) + "\r\n",
+        end: () => "",
+      };
+    case "markdown":
+      return {
+        begin: (cols) => {
+          columns = cols;
+          return (
+            markdownLine(columns) + "\n" + markdownLine(columns.map(() => "---")) + "\n"
+          );
+        },
+        row: (row) => markdownLine(columns.map((c) => cellText(row[c]))) + "\n",
+        end: () => "",
+      };
+    case "ndjson":
+      return {
+        begin: () => "",
+        row: (row) => JSON.stringify(row) + "\n",
+        end: () => "",
+      };
+    case "json":
+    case "json_compact":
+      return {
+        begin: () => "[",
+        row: (row) => (count++ > 0 ? ",\n" : "\n") + JSON.stringify(row),
+        end: () => (count > 0 ? "\n]\n" : "]\n"),
+      };
+  }
+}
+
+/**
+ * Format a complete result in memory.
+ */
+export function formatRows(
+  columns: string[],
+  rows: Record<string, unknown>[],
+  format: ResultFormat
+): string {
+  if (format === "json") return JSON.stringify(rows, null, 2);
+  if (format === "json_compact") return JSON.stringify(rows);
+
+  const encoder = createEncoder(format);
+  return encoder.begin(columns) + rows.map((row) => encoder.row(row)).join("") + encoder.end();
+}
+
+/**
+ * Render a value for a text cell: NULL is empty, objects and arrays are JSON.
+ */
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function csvLine(cells: string[]): string {
+  return cells
+    .map((cell) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell))
+    .join(",");
+}
+
+function markdownLine(cells: string[]): string {
+  const escaped = cells.map((cell) =>
+    cell.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>")
+  );
+  return `| ${escaped.join(" | ")} |`;
+}
@@ -0,0 +1,246 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ColumnInfo, ColumnSource } from "./serialization.js";
+import { wildcardToRegExp } from "./wildcard.js";
+
+/**
+ * What to do with a matched value.
+ * - hash: replace with a keyed SHA-256 digest (equal values stay equal)
+ * - partial: replace all but the first `keepStart` / last `keepEnd` characters with "*"
+ * - drop: remove the column (column rules) or null the value (detectors)
+ */
+export type MaskAction = "hash" | "partial" | "drop";
+
+/**
+ * One masking rule. Exactly one of `column`, `name`, `detector` or `pattern`
+ * selects what it applies to.
+ */
+export interface MaskRule {
+  /** Table column as schema.table.column; `*` matches any run of characters. */
+  column?: string;
+  /** Result column name (case-insensitive); `*` matches any run of characters. */
+  name?: string;
+  /** Built-in value detector: email, phone, credit_card or ssn. */
+  detector?: string;
+  /** Regular expression matched against string values. */
+  pattern?: string;
+  action: MaskAction;
+  keepStart?: number;
+  keepEnd?: number;
+}
+
+export interface MaskingConfig {
+  /** Key for hash; without one, a random key is used per process. */
+  salt?: string;
+  rules: MaskRule[];
+}
+
+/** Value patterns for the built-in detectors. */
+const DETECTORS: Record<string, string> = {
+  email: "[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}",
+  phone: "\\+?\\d[\\d ().-]{7,}\\d",
+  credit_card: "\\b(?:\\d[ -]?){12,18}\\d\\b",
+  ssn: "\\b\\d{3}-\\d{2}-\\d{4}\\b",
+};
+
+interface CompiledRule {
+  rule: MaskRule;
+  matcher: RegExp;
+}
+
+/**
+ * Column-level masking applied to query results before they leave the server.
+ * Column and name rules pick whole columns; detector and pattern rules rewrite
+ * matching substrings inside any remaining string value, including strings
+ * nested in arrays and JSON.
+ */
+export class MaskingPolicy {
+  private columnRules: CompiledRule[] = [];
+  private nameRules: CompiledRule[] = [];
+  private valueRules: CompiledRule[] = [];
+  private key: Buffer;
+
+  constructor(config: MaskingConfig) {
+    this.key = config.salt ? Buffer.from(config.salt) : randomBytes(32);
+
+    for (const rule of config.rules ?? []) {
+      if (!["hash", "partial", "drop"].includes(rule.action)) {
+        throw new Error(`Masking rule has an unknown action "${rule.action}".`);
+      }
+      if (rule.column) {
+        this.columnRules.push({ rule, matcher: wildcardToRegExp(rule.column) });
+      } else if (rule.name) {
+        this.nameRules.push({ rule, matcher: wildcardToRegExp(rule.name) });
+      } else if (rule.detector) {
+        const source = DETECTORS[rule.detector];
+        if (!source) {
+          throw new Error(
+            `Unknown masking detector "${rule.detector}" (expected ${Object.keys(DETECTORS).join(", ")}).`
+          );
+        }
+        this.valueRules.push({ rule, matcher: new RegExp(source, "g") });
+      } else if (rule.pattern) {
+        this.valueRules.push({ rule, matcher: new RegExp(rule.pattern, "g") });
+      } else {
+        throw new Error("Masking rule needs one of column, name, detector or pattern.");
+      }
+    }
+  }
+
+  /**
+   * Load the masking policy file: DB_EXPLORER_MASKING, or the first existing
+   * masking.{json,yaml,yml} under ~/.config/db-explorer. Returns null if
+   * there is none.
+   */
+  static async load(): Promise<MaskingPolicy | null> {
+    let path = process.env.DB_EXPLORER_MASKING;
+    if (!path) {
+      const dir = join(homedir(), ".config", "db-explorer");
+      for (const name of ["masking.json", "masking.yaml", "masking.yml"]) {
+        const candidate = join(dir, name);
+        if (await stat(candidate).then(() => true, () => false)) {
+          path = candidate;
+          break;
+        }
+      }
+    }
+    if (!path) return null;
+
+    const text = await readFile(path, "utf8");
+    const ext = extname(path).toLowerCase();
+    const data = (ext === ".yaml" || ext === ".yml"
+      ? parseYaml(text)
+      : JSON.parse(text)) as Partial<MaskingConfig> | null;
+
+    return new MaskingPolicy({
+      salt: data?.salt ?? process.env.DB_EXPLORER_MASKING_SALT,
+      rules: data?.rules ?? [],
+    });
+  }
+
+  /**
+   * Find the rule masking a whole column: a column rule on its source table
+   * column first, then a name rule on its name.
+   */
+  ruleFor(name: string, source: ColumnSource | null): MaskRule | undefined {
+    if (source) {
+      const qualified = `${source.schema}.${source.table}.${source.column}`;
+      const match = this.columnRules.find((r) => r.matcher.test(qualified));
+      if (match) return match.rule;
+    }
+    return this.nameRules.find((r) => r.matcher.test(name))?.rule;
+  }
+
+  /**
+   * Mask a result: dropped columns disappear, masked columns are marked in
+   * their `masked` field, and value detectors run over the other columns.
+   */
+  apply(
+    columns: ColumnInfo[],
+    rows: Record<string, unknown>[]
+  ): { columns: ColumnInfo[]; rows: Record<string, unknown>[] } {
+    const plan = columns.map((column) => ({
+      column,
+      rule: this.ruleFor(column.name, column.source),
+    }));
+
+    return {
+      columns: plan
+        .filter(({ rule }) => rule?.action !== "drop")
+        .map(({ column, rule }) => (rule ? { ...column, masked: rule.action } : column)),
+      rows: rows.map((row) => {
+        const masked: Record<string, unknown> = {};
+        for (const { column, rule } of plan) {
+          if (rule?.action === "drop") continue;
+          const value = row[column.name];
+          masked[column.name] = rule ? this.maskValue(value, rule) : this.scan(value);
+        }
+        return masked;
+      }),
+    };
+  }
+
+  /**
+   * Mask a record whose keys are the columns of one table, e.g. a row image
+   * converted with to_jsonb.
+   */
+  applyToRecord(
+    record: Record<string, unknown>,
+    table: { schema: string; table: string }
+  ): Record<string, unknown> {
+    const masked: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(record)) {
+      const rule = this.ruleFor(name, { ...table, column: name });
+      if (rule?.action === "drop") continue;
+      masked[name] = rule ? this.maskValue(value, rule) : this.scan(value);
+    }
+    return masked;
+  }
+
+  /**
+   * Mask values taken from one table column, such as column statistics.
+   * Returns null if the column is dropped.
+   */
+  applyToColumn(values: unknown[], source: ColumnSource): unknown[] | null {
+    const rule = this.ruleFor(source.column, source);
+    if (rule?.action === "drop") return null;
+    return values.map((value) => (rule ? this.maskValue(value, rule) : this.scan(value)));
+  }
+
+  private maskValue(value: unknown, rule: MaskRule): unknown {
+    if (value === null || value === undefined) return value;
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+
+    switch (rule.action) {
+      case "hash":
+        return "hash:" + createHmac("sha256", this.key).update(text).digest("hex").slice(0, 16);
+      case "partial":
+        return partialMask(text, rule.keepStart ?? 0, rule.keepEnd ?? 4);
+      case "drop":
+        return null;
+    }
+  }
+
+  /**
+   * Apply value detectors to a value, descending into arrays and objects.
+   */
+  private scan(value: unknown): unknown {
+    if (this.valueRules.length === 0 || value === null) return value;
+
+    if (typeof value === "string") {
+      let text = value;
+      for (const { rule, matcher } of this.valueRules) {
+        matcher.lastIndex = 0;
+        if (!matcher.test(text)) continue;
+        if (rule.action === "drop") return null;
+        text = text.replace(matcher, (match) => String(this.maskValue(match, rule)));
+      }
+      return text;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.scan(item));
+    }
+    if (typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, this.scan(v)])
+      );
+    }
+    return value;
+  }
+}
+
+function partialMask(text: string, keepStart: number, keepEnd: number): string {
+  const chars = [...text];
+  if (chars.length <= keepStart + keepEnd) {
+    return "*".repeat(chars.length);
+  }
+  return (
+    chars.slice(0, keepStart).join("") +
+    "*".repeat(chars.length - keepStart - keepEnd) +
+    chars.slice(chars.length - keepEnd).join("")
+  );
+}
+
@@ -0,0 +1,367 @@
+import { readFile, stat } from "node:fs/promises";
+import { homedir, userInfo } from "node:os";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { ConnectionConfig, SSL_MODES, SslMode } from "./database.js";
+
+/**
+ * Connection settings as supplied by a tool call, a profile or a URI.
+ * Every field is optional; missing values are filled from the other sources.
+ */
+export interface ConnectionInput {
+  profile?: string;
+  uri?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  sslmode?: SslMode;
+  sslservername?: string;
+}
+
+/**
+ * A named entry in the profiles file.
+ */
+export interface ConnectionProfile {
+  uri?: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+  password?: string;
+  /** Name of an environment variable holding the password. */
+  passwordEnv?: string;
+  sslmode?: SslMode;
+  sslrootcert?: string;
+  sslcert?: string;
+  sslkey?: string;
+  sslservername?: string;
+}
+
+export interface ProfileSummary {
+  name: string;
+  host?: string;
+  port?: number;
+  database?: string;
+  user?: string;
+}
+
+type PartialConfig = Partial<ConnectionConfig>;
+
+/**
+ * Resolve connection settings into a complete config.
+ *
+ * Precedence, highest first: explicit fields, connection URI, profile,
+ * libpq environment variables (PGHOST, PGPORT, ...), libpq defaults.
+ * A password is only used for the host and port of the source that supplied
+ * it, so overriding the host cannot redirect a stored password elsewhere.
+ * When no password applies, the password file (PGPASSFILE or ~/.pgpass) is
+ * consulted.
+ */
+export async function resolveConnectionConfig(
+  input: ConnectionInput
+): Promise<ConnectionConfig> {
+  const layers: PartialConfig[] = [fromEnvironment()];
+
+  if (input.profile) {
+    const profile = await getProfile(input.profile);
+    layers.push({
+      ...(profile.uri ? parseConnectionUri(profile.uri) : {}),
+      ...fromProfile(profile),
+    });
+  }
+  if (input.uri) {
+    const fromUri = parseConnectionUri(input.uri);
+    if (fromUri.sslrootcert || fromUri.sslcert || fromUri.sslkey) {
+      throw new Error(
+        "Certificate file paths cannot be passed in a connection URI. Set sslrootcert, sslcert and sslkey in a profile or via PGSSLROOTCERT, PGSSLCERT and PGSSLKEY."
+      );
+    }
+    layers.push(fromUri);
+  }
+  layers.push(compact({
+    host: input.host,
+    port: input.port,
+    database: input.database,
+    user: input.user,
+    password: input.password,
+    sslmode: input.sslmode,
+    sslservername: input.sslservername,
+  }));
+
+  const merged: PartialConfig = Object.assign({}, ...layers);
+  merged.password = passwordFor(layers);
+
+  const user = merged.user ?? userInfo().username;
+  const config: ConnectionConfig = {
+    host: merged.host ?? "localhost",
+    port: merged.port ?? 5432,
+    database: merged.database ?? user,
+    user,
+    password: merged.password,
+    sslmode: merged.sslmode ?? "disable",
+    sslrootcert: merged.sslrootcert,
+    sslcert: merged.sslcert,
+    sslkey: merged.sslkey,
+    sslservername: merged.sslservername,
+  };
+
+  if (config.password === undefined) {
+    config.password = await lookupPgpass(config);
+  }
+
+  return config;
+}
+
+/**
+ * The password of the highest layer that has one, unless a higher layer
+ * changed the host or port it was meant for.
+ */
+function passwordFor(layers: PartialConfig[]): string | undefined {
+  const endpoint = (config: PartialConfig) =>
+    `${config.host ?? "localhost"}:${config.port ?? 5432}`;
+  const target = endpoint(Object.assign({}, ...layers));
+
+  for (let i = layers.length - 1; i >= 0; i--) {
+    if (layers[i].password === undefined) continue;
+    const source = endpoint(Object.assign({}, ...layers.slice(0, i + 1)));
+    return source === target ? layers[i].password : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a postgres:// or postgresql:// connection URI.
+ */
+export function parseConnectionUri(uri: string): PartialConfig {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error("Invalid connection URI.");
+  }
+
+  if (url.protocol !== "postgres:" && url.protocol !== "postgresql:") {
+    throw new Error(
+      `Unsupported connection URI scheme "${url.protocol}". Use postgres:// or postgresql://.`
+    );
+  }
+
+  const params = url.searchParams;
+  const database = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  const sslmode = params.get("sslmode");
+
+  return compact({
+    host: params.get("host") ?? (url.hostname ? decodeURIComponent(url.hostname) : undefined),
+    port: url.port ? Number(url.port) : optionalNumber(params.get("port")),
+    database: params.get("dbname") ?? (database || undefined),
+    user: params.get("user") ?? (url.username ? decodeURIComponent(url.username) : undefined),
+    password: params.get("password") ?? (url.password ? decodeURIComponent(url.password) : undefined),
+    sslmode: sslmode ? parseSslMode(sslmode) : undefined,
+    sslrootcert: params.get("sslrootcert") ?? undefined,
+    sslcert: params.get("sslcert") ?? undefined,
+    sslkey: params.get("sslkey") ?? undefined,
+    sslservername: params.get("sslservername") ?? undefined,
+  });
+}
+
+/**
+ * List the profiles defined in the profiles file, without secrets.
+ */
+export async function listProfiles(): Promise<ProfileSummary[]> {
+  const profiles = await loadProfiles();
+  return Object.entries(profiles).map(([name, profile]) => {
+    const fromUri = profile.uri ? parseConnectionUri(profile.uri) : {};
+    return {
+      name,
+      host: profile.host ?? fromUri.host,
+      port: profile.port ?? fromUri.port,
+      database: profile.database ?? fromUri.database,
+      user: profile.user ?? fromUri.user,
+    };
+  });
+}
+
+/**
+ * Path of the profiles file: DB_EXPLORER_PROFILES, or the first existing
+ * profiles.{json,yaml,yml} under ~/.config/db-explorer.
+ */
+async function profilesPath(): Promise<string | null> {
+  if (process.env.DB_EXPLORER_PROFILES) {
+    return process.env.DB_EXPLORER_PROFILES;
+  }
+
+  const dir = join(homedir(), ".config", "db-explorer");
+  for (const name of ["profiles.json", "profiles.yaml", "profiles.yml"]) {
+    const candidate = join(dir, name);
+    if (await fileExists(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Load all profiles from the profiles file. The file holds a top-level
+ * `profiles` map of name → profile.
+ */
+async function loadProfiles(): Promise<Record<string, ConnectionProfile>> {
+  const path = await profilesPath();
+  if (!path) return {};
+
+  const text = await readFile(path, "utf8");
+  const ext = extname(path).toLowerCase();
+  const data = (ext === ".yaml" || ext === ".yml"
+    ? parseYaml(text)
+    : JSON.parse(text)) as { profiles?: Record<string, ConnectionProfile> };
+
+  return data?.profiles ?? {};
+}
+
+/**
+ * Look up a single profile by name. Throws if it does not exist.
+ */
+async function getProfile(name: string): Promise<ConnectionProfile> {
+  const profiles = await loadProfiles();
+  const profile = profiles[name];
+  if (!profile) {
+    const known = Object.keys(profiles);
+    throw new Error(
+      `Unknown connection profile "${name}". ` +
+        (known.length > 0
+          ? `Available profiles: ${known.join(", ")}.`
+          : "No profiles file found (set DB_EXPLORER_PROFILES).")
+    );
+  }
+  return profile;
+}
+
+function fromProfile(profile: ConnectionProfile): PartialConfig {
+  return compact({
+    host: profile.host,
+    port: profile.port,
+    database: profile.database,
+    user: profile.user,
+    password:
+      profile.password ??
+      (profile.passwordEnv ? process.env[profile.passwordEnv] : undefined),
+    sslmode: profile.sslmode ? parseSslMode(profile.sslmode) : undefined,
+    sslrootcert: profile.sslrootcert,
+    sslcert: profile.sslcert,
+    sslkey: profile.sslkey,
+    sslservername: profile.sslservername,
+  });
+}
+
+/**
+ * Read the standard libpq environment variables.
+ */
+function fromEnvironment(): PartialConfig {
+  const env = process.env;
+  return compact({
+    host: env.PGHOST,
+    port: optionalNumber(env.PGPORT),
+    database: env.PGDATABASE,
+    user: env.PGUSER,
+    password: env.PGPASSWORD,
+    sslmode: env.PGSSLMODE ? parseSslMode(env.PGSSLMODE) : undefined,
+    sslrootcert: env.PGSSLROOTCERT,
+    sslcert: env.PGSSLCERT,
+    sslkey: env.PGSSLKEY,
+  });
+}
+
+/**
+ * Find a password in the libpq password file. Entries are
+ * host:port:database:username:password, where any of the first four fields
+ * may be `*`. Like libpq, the file is ignored if it is readable by group or
+ * others.
+ */
+async function lookupPgpass(
+  config: ConnectionConfig
+): Promise<string | undefined> {
+  const path = process.env.PGPASSFILE ?? join(homedir(), ".pgpass");
+
+  let text: string;
+  try {
+    if (process.platform !== "win32" && ((await stat(path)).mode & 0o077) !== 0) {
+      return undefined;
+    }
+    text = await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+
+  const wanted = [config.host, String(config.port), config.database, config.user];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "" || line.startsWith("#")) continue;
+
+    const fields = splitPgpassLine(line);
+    if (fields.length < 5) continue;
+
+    const matches = wanted.every(
+      (value, i) => fields[i] === "*" || fields[i] === value
+    );
+    if (matches) return fields.slice(4).join(":");
+  }
+
+  return undefined;
+}
+
+/**
+ * Split a .pgpass line on unescaped colons, resolving `\:` and `\\`.
+ */
+function splitPgpassLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === "\\" && i + 1 < line.length) {
+      current += line[++i];
+    } else if (ch === ":") {
+      fields.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * Parse a libpq sslmode. The opportunistic modes (allow, prefer) cannot be
+ * expressed with node-pg and fall back to disable.
+ */
+function parseSslMode(value: string): SslMode {
+  if (value === "allow" || value === "prefer") return "disable";
+  if ((SSL_MODES as readonly string[]).includes(value)) return value as SslMode;
+  throw new Error(
+    `Invalid sslmode "${value}". Use one of: ${SSL_MODES.join(", ")}.`
+  );
+}
+
+function optionalNumber(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Drop undefined fields so they don't override lower-precedence layers.
+ */
+function compact<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
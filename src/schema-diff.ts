@@ -0,0 +1,337 @@
+import {
+  ColumnSnapshot,
+  ConstraintSnapshot,
+  SchemaSnapshot,
+  TableSnapshot,
+  ViewSnapshot,
+} from "./tools/snapshot.js";
+
+/**
+ * One difference between two snapshots. Names are qualified:
+ * schema.table for tables, schema.table.column for columns, and so on.
+ */
+export interface SchemaChange {
+  object: "table" | "column" | "constraint" | "index" | "view" | "function";
+  change: "added" | "removed" | "changed";
+  name: string;
+  /** What changed, e.g. "type: integer → bigint". */
+  details?: string[];
+}
+
+export interface SchemaDiff {
+  from: string;
+  to: string;
+  changes: SchemaChange[];
+  /** Best-effort SQL that turns `from` into `to`. */
+  migration: string;
+}
+
+/**
+ * Order of migration statements: drops before creates, tables before their
+ * constraints and indexes, and foreign keys once every table exists.
+ */
+const PHASES = [
+  "dropViews",
+  "dropForeignKeys",
+  "dropConstraints",
+  "dropIndexes",
+  "dropTables",
+  "tables",
+  "columns",
+  "constraints",
+  "indexes",
+  "foreignKeys",
+  "views",
+  "functions",
+] as const;
+
+type Phase = (typeof PHASES)[number];
+
+interface Statement {
+  phase: Phase;
+  sql: string;
+}
+
+/**
+ * Compare two snapshots. The migration script turns the `from` schema into
+ * the `to` schema.
+ */
+export function diffSnapshots(from: SchemaSnapshot, to: SchemaSnapshot): SchemaDiff {
+  const changes: SchemaChange[] = [];
+  const statements: Statement[] = [];
+  const emit = (phase: Phase, sql: string) => statements.push({ phase, sql });
+
+  for (const [name, change, before, after] of compareKeys(from.tables, to.tables)) {
+    if (change === "added") {
+      changes.push({ object: "table", change, name });
+      createTable(name, after, emit);
+    } else if (change === "removed") {
+      changes.push({ object: "table", change, name });
+      emit("dropTables", `DROP TABLE ${name};`);
+    } else {
+      diffTable(name, before, after, changes, emit);
+    }
+  }
+
+  for (const [name, change, before, after] of compareKeys(from.views, to.views)) {
+    if (change === "both") {
+      if (before.definition === after.definition && before.materialized === after.materialized) {
+        continue;
+      }
+      changes.push({ object: "view", change: "changed", name, details: ["definition changed"] });
+      if (!before.materialized && !after.materialized) {
+        emit("views", `CREATE OR REPLACE VIEW ${name} AS\n${viewQuery(after)};`);
+        continue;
+      }
+    } else {
+      changes.push({ object: "view", change, name });
+    }
+    if (before) emit("dropViews", `DROP ${viewKind(before)} ${name};`);
+    if (after) emit("views", `CREATE ${viewKind(after)} ${name} AS\n${viewQuery(after)};`);
+  }
+
+  for (const [name, change, before, after] of compareKeys(from.functions, to.functions)) {
+    if (change === "both" && before.definition === after.definition) continue;
+
+    changes.push({
+      object: "function",
+      change: change === "both" ? "changed" : change,
+      name,
+      ...(change === "both" && { details: ["definition changed"] }),
+    });
+    if (after) {
+      emit("functions", `${after.definition.trimEnd()};`);
+    } else {
+      emit("functions", `DROP ${before.kind.toUpperCase()} ${name};`);
+    }
+  }
+
+  const header = [
+    `-- Migration from ${from.source} (${from.takenAt})`,
+    `--             to ${to.source} (${to.takenAt})`,
+    "-- Generated from catalog snapshots; review before running.",
+  ];
+  const body = statements
+    .map((s, i) => ({ ...s, i }))
+    .sort((a, b) => PHASES.indexOf(a.phase) - PHASES.indexOf(b.phase) || a.i - b.i)
+    .map((s) => s.sql);
+
+  return {
+    from: `${from.source} (${from.schema}, ${from.takenAt})`,
+    to: `${to.source} (${to.schema}, ${to.takenAt})`,
+    changes,
+    migration:
+      body.length > 0
+        ? [header.join("\n"), "BEGIN;", ...body, "COMMIT;"].join("\n\n") + "\n"
+        : header.join("\n") + "\n-- No changes.\n",
+  };
+}
+
+function diffTable(
+  table: string,
+  before: TableSnapshot,
+  after: TableSnapshot,
+  changes: SchemaChange[],
+  emit: (phase: Phase, sql: string) => void
+): void {
+  if (
+    before.partitionKey !== after.partitionKey ||
+    JSON.stringify(before.partitionOf) !== JSON.stringify(after.partitionOf)
+  ) {
+    const describe = (t: TableSnapshot) =>
+      t.partitionKey
+        ? `PARTITION BY ${t.partitionKey}`
+        : t.partitionOf
+          ? `PARTITION OF ${t.partitionOf.parent} ${t.partitionOf.bound}`
+          : "not partitioned";
+    const details = [`partitioning: ${describe(before)} → ${describe(after)}`];
+    changes.push({ object: "table", change: "changed", name: table, details });
+    emit("tables", `-- ${table}: ${details[0]}; the table has to be rebuilt.`);
+  }
+
+  for (const [column, change, old, next] of compareKeys(before.columns, after.columns)) {
+    const name = `${table}.${column}`;
+    if (change === "added") {
+      changes.push({ object: "column", change, name });
+      emit("columns", `ALTER TABLE ${table} ADD COLUMN ${columnDefinition(column, next)};`);
+    } else if (change === "removed") {
+      changes.push({ object: "column", change, name });
+      emit("columns", `ALTER TABLE ${table} DROP COLUMN ${column};`);
+    } else {
+      diffColumn(table, column, old, next, changes, emit);
+    }
+  }
+
+  for (const [constraint, change, old, next] of compareKeys(before.constraints, after.constraints)) {
+    if (change === "both" && old.definition === next.definition) continue;
+
+    changes.push({
+      object: "constraint",
+      change: change === "both" ? "changed" : change,
+      name: `${table}.${constraint}`,
+      ...(change === "both" && { details: [`${old.definition} → ${next.definition}`] }),
+    });
+    if (old) {
+      emit(
+        old.type === "FOREIGN KEY" ? "dropForeignKeys" : "dropConstraints",
+        `ALTER TABLE ${table} DROP CONSTRAINT ${constraint};`
+      );
+    }
+    if (next) addConstraint(table, constraint, next, emit);
+  }
+
+  for (const [index, change, old, next] of compareKeys(before.indexes, after.indexes)) {
+    if (change === "both" && old === next) continue;
+
+    changes.push({
+      object: "index",
+      change: change === "both" ? "changed" : change,
+      name: index,
+      ...(change === "both" && { details: [`${old} → ${next}`] }),
+    });
+    if (old) emit("dropIndexes", `DROP INDEX ${index};`);
+    if (next) emit("indexes", `${next};`);
+  }
+}
+
+function diffColumn(
+  table: string,
+  column: string,
+  before: ColumnSnapshot,
+  after: ColumnSnapshot,
+  changes: SchemaChange[],
+  emit: (phase: Phase, sql: string) => void
+): void {
+  const details: string[] = [];
+  const alter = (action: string) =>
+    emit("columns", `ALTER TABLE ${table} ALTER COLUMN ${column} ${action};`);
+
+  if (before.type !== after.type) {
+    details.push(`type: ${before.type} → ${after.type}`);
+    alter(`TYPE ${after.type} USING ${column}::${after.type}`);
+  }
+
+  const beforeGenerated = before.generated?.expression ?? null;
+  const afterGenerated = after.generated?.expression ?? null;
+  if (beforeGenerated !== afterGenerated) {
+    details.push(`generated: ${beforeGenerated ?? "none"} → ${afterGenerated ?? "none"}`);
+    if (afterGenerated === null) {
+      alter("DROP EXPRESSION");
+    } else if (beforeGenerated === null) {
+      emit(
+        "columns",
+        `-- ${table}.${column}: an existing column cannot become generated; drop and re-add it.`
+      );
+    } else {
+      alter(`SET EXPRESSION AS (${afterGenerated})`);
+    }
+  }
+
+  if (before.identity !== after.identity) {
+    details.push(`identity: ${before.identity ?? "none"} → ${after.identity ?? "none"}`);
+    if (after.identity === null) {
+      alter("DROP IDENTITY");
+    } else if (before.identity === null) {
+      alter(`ADD GENERATED ${after.identity} AS IDENTITY`);
+    } else {
+      alter(`SET GENERATED ${after.identity}`);
+    }
+  }
+
+  if (before.default !== after.default) {
+    details.push(`default: ${before.default ?? "none"} → ${after.default ?? "none"}`);
+    alter(after.default === null ? "DROP DEFAULT" : `SET DEFAULT ${after.default}`);
+  }
+
+  if (before.nullable !== after.nullable) {
+    details.push(`nullable: ${before.nullable} → ${after.nullable}`);
+    alter(after.nullable ? "DROP NOT NULL" : "SET NOT NULL");
+  }
+
+  if (details.length > 0) {
+    changes.push({ object: "column", change: "changed", name: `${table}.${column}`, details });
+  }
+}
+
+function createTable(
+  name: string,
+  table: TableSnapshot,
+  emit: (phase: Phase, sql: string) => void
+): void {
+  let sql: string;
+  if (table.partitionOf) {
+    // Partitions take their columns from the parent
+    sql = `CREATE TABLE ${name} PARTITION OF ${table.partitionOf.parent}\n${table.partitionOf.bound}`;
+  } else {
+    const columns = Object.entries(table.columns).map(
+      ([column, def]) => `    ${columnDefinition(column, def)}`
+    );
+    sql = `CREATE TABLE ${name} (\n${columns.join(",\n")}\n)`;
+  }
+  if (table.partitionKey) sql += `\nPARTITION BY ${table.partitionKey}`;
+  emit("tables", `${sql};`);
+
+  for (const [constraint, def] of Object.entries(table.constraints)) {
+    addConstraint(name, constraint, def, emit);
+  }
+  for (const index of Object.values(table.indexes)) {
+    emit("indexes", `${index};`);
+  }
+}
+
+function addConstraint(
+  table: string,
+  name: string,
+  constraint: ConstraintSnapshot,
+  emit: (phase: Phase, sql: string) => void
+): void {
+  emit(
+    constraint.type === "FOREIGN KEY" ? "foreignKeys" : "constraints",
+    `ALTER TABLE ${table} ADD CONSTRAINT ${name} ${constraint.definition};`
+  );
+}
+
+function columnDefinition(name: string, column: ColumnSnapshot): string {
+  let sql = `${name} ${column.type}`;
+  if (column.generated) {
+    sql += ` GENERATED ALWAYS AS (${column.generated.expression})`;
+    sql += column.generated.stored ? " STORED" : " VIRTUAL";
+  } else if (column.identity) {
+    sql += ` GENERATED ${column.identity} AS IDENTITY`;
+  } else if (column.default !== null) {
+    sql += ` DEFAULT ${column.default}`;
+  }
+  if (!column.nullable && !column.identity) sql += " NOT NULL";
+  return sql;
+}
+
+function viewKind(view: ViewSnapshot): string {
+  return view.materialized ? "MATERIALIZED VIEW" : "VIEW";
+}
+
+function viewQuery(view: ViewSnapshot): string {
+  return view.definition.trim().replace(/;$/, "");
+}
+
+type KeyPair<T> =
+  | [key: string, change: "added", before: undefined, after: T]
+  | [key: string, change: "removed", before: T, after: undefined]
+  | [key: string, change: "both", before: T, after: T];
+
+/**
+ * Pair up the entries of two records by key, in the order of `from`
+ * followed by keys only in `to`. Only own keys count: the records come from
+ * JSON, and names such as "constructor" must not match Object.prototype.
+ */
+function compareKeys<T>(from: Record<string, T>, to: Record<string, T>): KeyPair<T>[] {
+  const pairs: KeyPair<T>[] = [];
+  for (const [key, before] of Object.entries(from)) {
+    pairs.push(
+      Object.hasOwn(to, key) ? [key, "both", before, to[key]] : [key, "removed", before, undefined]
+    );
+  }
+  for (const [key, after] of Object.entries(to)) {
+    if (!Object.hasOwn(from, key)) pairs.push([key, "added", undefined, after]);
+  }
+  return pairs;
+}
@@ -0,0 +1,503 @@
+import { FieldDef } from "pg";
+import { DatabaseManager } from "./database.js";
+import { MaskAction } from "./masking.js";
+
+/**
+ * The table column a result column was read from.
+ */
+export interface ColumnSource {
+  schema: string;
+  table: string;
+  column: string;
+}
+
+/**
+ * Metadata for one result column.
+ */
+export interface ColumnInfo {
+  name: string;
+  /** SQL type as printed by format_type, e.g. "numeric(10,2)" or "text[]". */
+  type: string;
+  typeOid: number;
+  /** Type modifier (-1 if none). */
+  typmod: number;
+  /** False for NOT NULL table columns; null when the column is computed. */
+  nullable: boolean | null;
+  /** Table column the values come from; null when the column is computed. */
+  source: ColumnSource | null;
+  /** Set when a masking rule rewrites this column's values. */
+  masked?: MaskAction;
+}
+
+export type ByteaEncoding = "base64" | "hex";
+
+/**
+ * Catalog facts about a type needed to decode its text output.
+ */
+interface TypeInfo {
+  oid: number;
+  name: string;
+  builtin: boolean;
+  /** pg_type.typtype: b(ase), c(omposite), d(omain), e(num), r(ange), m(ultirange), p(seudo). */
+  kind: string;
+  isArray: boolean;
+  /** Element type for arrays. */
+  elementOid: number;
+  delimiter: string;
+  /** Base type for domains. */
+  baseOid: number;
+  /** Bound type for ranges and multiranges. */
+  rangeSubtypeOid: number;
+  /** Attribute names and types for composites. */
+  attributes: { name: string; typeOid: number }[];
+}
+
+type Decoder = (text: string) => unknown;
+
+/** Type catalogs and decoders, shared by everything using the same connection. */
+const serializers = new WeakMap<DatabaseManager, ResultSerializer>();
+
+/**
+ * Converts the text output of PostgreSQL values into lossless JSON values,
+ * driven by the type OIDs of the result fields:
+ *
+ * - bool → boolean; int2, int4, oid, float4, float8 → number
+ *   (NaN and ±Infinity stay strings)
+ * - int8, numeric, money → string, so no digits are lost
+ * - json, jsonb → parsed JSON
+ * - bytea → base64 string (or hex, see DB_EXPLORER_BYTEA_ENCODING)
+ * - timestamptz → ISO 8601 with offset ("2024-05-01T12:00:00.5+02:00");
+ *   timestamp → ISO 8601 without offset; timetz keeps a ±HH:MM offset
+ * - interval → ISO 8601 duration ("P1DT2H")
+ * - ranges → { lower, upper, lowerInclusive, upperInclusive } or { empty: true },
+ *   with null for an unbounded side; multiranges → arrays of ranges
+ * - arrays → nested arrays of decoded elements; composites → objects
+ * - domains → as their base type; everything else → the text output
+ *
+ * It expects values fetched with the output settings applied by
+ * DatabaseManager.declareCursor (ISO DateStyle and IntervalStyle, hex bytea).
+ */
+export class ResultSerializer {
+  private types = new Map<number, TypeInfo>();
+  private decoders = new Map<number, Decoder>();
+
+  constructor(
+    private db: DatabaseManager,
+    private byteaEncoding: ByteaEncoding = byteaEncodingFromEnv()
+  ) {}
+
+  /**
+   * Get the serializer for a connection, creating it on first use.
+   */
+  static for(db: DatabaseManager): ResultSerializer {
+    let serializer = serializers.get(db);
+    if (!serializer) {
+      serializer = new ResultSerializer(db);
+      serializers.set(db, serializer);
+    }
+    return serializer;
+  }
+
+  /**
+   * Describe result columns: SQL type, typmod and nullability.
+   */
+  async describeColumns(fields: FieldDef[]): Promise<ColumnInfo[]> {
+    if (fields.length === 0) return [];
+
+    const result = await this.db.queryReadOnly<{
+      type: string;
+      attnotnull: boolean | null;
+      schema: string | null;
+      table: string | null;
+      column: string | null;
+    }>(
+      `SELECT format_type(c.oid, NULLIF(c.typmod, -1)) AS type, a.attnotnull,
+              n.nspname AS schema, cl.relname AS table, a.attname AS column
+       FROM unnest($1::oid[], $2::int[], $3::oid[], $4::int[]) WITH ORDINALITY
+         AS c(oid, typmod, relid, attnum, i)
+       LEFT JOIN pg_attribute a ON a.attrelid = c.relid AND a.attnum = c.attnum
+       LEFT JOIN pg_class cl ON cl.oid = a.attrelid
+       LEFT JOIN pg_namespace n ON n.oid = cl.relnamespace
+       ORDER BY c.i`,
+      [
+        fields.map((f) => f.dataTypeID),
+        fields.map((f) => f.dataTypeModifier),
+        fields.map((f) => f.tableID),
+        fields.map((f) => f.columnID),
+      ]
+    );
+
+    return fields.map((f, i) => {
+      const row = result.rows[i];
+      return {
+        name: f.name,
+        type: row?.type ?? String(f.dataTypeID),
+        typeOid: f.dataTypeID,
+        typmod: f.dataTypeModifier,
+        nullable: row?.attnotnull == null ? null : !row.attnotnull,
+        source:
+          row?.schema && row.table && row.column
+            ? { schema: row.schema, table: row.table, column: row.column }
+            : null,
+      };
+    });
+  }
+
+  /**
+   * Decode rows of text values (as returned by DatabaseManager.fetchCursor).
+   */
+  async decodeRows(
+    fields: FieldDef[],
+    rows: Record<string, unknown>[]
+  ): Promise<Record<string, unknown>[]> {
+    await this.load(fields.map((f) => f.dataTypeID));
+    const decoders = fields.map((f) => [f.name, this.decoder(f.dataTypeID)] as const);
+
+    return rows.map((row) => {
+      const decoded: Record<string, unknown> = {};
+      for (const [name, decode] of decoders) {
+        const value = row[name];
+        decoded[name] = typeof value === "string" ? decode(value) : value;
+      }
+      return decoded;
+    });
+  }
+
+  /**
+   * Load catalog information for types and every type they are built from.
+   */
+  private async load(oids: number[]): Promise<void> {
+    let missing = [...new Set(oids)].filter((oid) => !this.types.has(oid));
+
+    while (missing.length > 0) {
+      const result = await this.db.queryReadOnly<{
+        oid: number;
+        typname: string;
+        builtin: boolean;
+        typtype: string;
+        typcategory: string;
+        typelem: number;
+        typdelim: string;
+        typbasetype: number;
+        rngsubtype: number | null;
+        attributes: { name: string; typeOid: number }[] | null;
+      }>(
+        `SELECT t.oid::int AS oid, t.typname, t.typnamespace = 'pg_catalog'::regnamespace AS builtin,
+                t.typtype, t.typcategory, t.typelem::int AS typelem, t.typdelim, t.typbasetype::int AS typbasetype,
+                coalesce(r.rngsubtype, mr.rngsubtype)::int AS rngsubtype,
+                (SELECT json_agg(json_build_object('name', a.attname, 'typeOid', a.atttypid::int)
+                                 ORDER BY a.attnum)
+                 FROM pg_attribute a
+                 WHERE t.typtype = 'c' AND a.attrelid = t.typrelid
+                   AND a.attnum > 0 AND NOT a.attisdropped) AS attributes
+         FROM pg_type t
+         LEFT JOIN pg_range r ON r.rngtypid = t.oid
+         LEFT JOIN pg_range mr ON (to_jsonb(mr) ->> 'rngmultitypid')::oid = t.oid
+         WHERE t.oid = ANY($1::oid[])`,
+        [missing]
+      );
+
+      const next: number[] = [];
+      for (const row of result.rows) {
+        const info: TypeInfo = {
+          oid: row.oid,
+          name: row.typname,
+          builtin: row.builtin,
+          kind: row.typtype,
+          isArray: row.typcategory === "A" && row.typelem !== 0,
+          elementOid: row.typelem,
+          delimiter: row.typdelim,
+          baseOid: row.typbasetype,
+          rangeSubtypeOid: row.rngsubtype ?? 0,
+          attributes: row.attributes ?? [],
+        };
+        this.types.set(info.oid, info);
+        next.push(
+          info.elementOid,
+          info.baseOid,
+          info.rangeSubtypeOid,
+          ...info.attributes.map((a) => a.typeOid)
+        );
+      }
+
+      // Unknown OIDs are recorded as plain text so they aren't looked up again
+      for (const oid of missing) {
+        if (!this.types.has(oid)) {
+          this.types.set(oid, plainType(oid));
+        }
+      }
+      missing = [...new Set(next)].filter((oid) => oid !== 0 && !this.types.has(oid));
+    }
+  }
+
+  private decoder(oid: number): Decoder {
+    let decoder = this.decoders.get(oid);
+    if (!decoder) {
+      decoder = this.buildDecoder(this.types.get(oid) ?? plainType(oid));
+      this.decoders.set(oid, decoder);
+    }
+    return decoder;
+  }
+
+  private buildDecoder(type: TypeInfo): Decoder {
+    if (type.isArray) {
+      const element = (text: string) => this.decoder(type.elementOid)(text);
+      return (text) => parseArray(text, type.delimiter, element);
+    }
+
+    switch (type.kind) {
+      case "d":
+        return (text) => this.decoder(type.baseOid)(text);
+      case "r": {
+        const bound = (text: string) => this.decoder(type.rangeSubtypeOid)(text);
+        return (text) => parseRange(text, bound);
+      }
+      case "m": {
+        const bound = (text: string) => this.decoder(type.rangeSubtypeOid)(text);
+        return (text) => splitMultirange(text).map((range) => parseRange(range, bound));
+      }
+      case "c":
+        if (type.attributes.length === 0) return (text) => text;
+        return (text) => {
+          const values = parseComposite(text);
+          const object: Record<string, unknown> = {};
+          type.attributes.forEach((attribute, i) => {
+            const value = values[i];
+            object[attribute.name] = value === null || value === undefined
+              ? null
+              : this.decoder(attribute.typeOid)(value);
+          });
+          return object;
+        };
+    }
+
+    if (!type.builtin) return (text) => text;
+
+    switch (type.name) {
+      case "bool":
+        return (text) => text === "t";
+      case "int2":
+      case "int4":
+      case "oid":
+      case "float4":
+      case "float8":
+        return (text) => {
+          const value = Number(text);
+          return Number.isFinite(value) ? value : text;
+        };
+      case "json":
+      case "jsonb":
+        return (text) => JSON.parse(text);
+      case "bytea":
+        return (text) => {
+          const hex = text.startsWith("\\x") ? text.slice(2) : text;
+          return this.byteaEncoding === "hex" ? hex : Buffer.from(hex, "hex").toString("base64");
+        };
+      case "timestamp":
+      case "timestamptz":
+        return isoTimestamp;
+      case "timetz":
+        return isoOffsetTime;
+      default:
+        return (text) => text;
+    }
+  }
+}
+
+/**
+ * Read the bytea representation from DB_EXPLORER_BYTEA_ENCODING (default base64).
+ */
+export function byteaEncodingFromEnv(): ByteaEncoding {
+  return process.env.DB_EXPLORER_BYTEA_ENCODING?.toLowerCase() === "hex" ? "hex" : "base64";
+}
+
+function plainType(oid: number): TypeInfo {
+  return {
+    oid,
+    name: "",
+    builtin: false,
+    kind: "b",
+    isArray: false,
+    elementOid: 0,
+    delimiter: ",",
+    baseOid: 0,
+    rangeSubtypeOid: 0,
+    attributes: [],
+  };
+}
+
+/**
+ * "2024-05-01 12:00:00.5+02" → "2024-05-01T12:00:00.5+02:00".
+ * Infinity and BC values are returned unchanged.
+ */
+function isoTimestamp(text: string): string {
+  const match = text.match(/^(\d{4,}-\d\d-\d\d) (\d\d:\d\d:\d\d(?:\.\d+)?)([+-]\d\d(?::\d\d){0,2})?$/);
+  if (!match) return text;
+  return `${match[1]}T${match[2]}${match[3] ? isoOffset(match[3]) : ""}`;
+}
+
+/**
+ * "12:00:00+02" → "12:00:00+02:00".
+ */
+function isoOffsetTime(text: string): string {
+  const match = text.match(/^(\d\d:\d\d:\d\d(?:\.\d+)?)([+-]\d\d(?::\d\d){0,2})$/);
+  return match ? match[1] + isoOffset(match[2]) : text;
+}
+
+function isoOffset(offset: string): string {
+  return /^[+-]\d\d$/.test(offset) ? `${offset}:00` : offset;
+}
+
+/**
+ * Read one element of an array, range or composite literal starting at
+ * `start`. Quoted elements may contain backslash escapes and, in composites
+ * and ranges, doubled quotes. Returns the raw or unescaped text (null for an
+ * unquoted NULL in arrays) and the offset just past it.
+ */
+function readElement(
+  text: string,
+  start: number,
+  stops: string,
+  nullWord: boolean
+): { value: string | null; end: number; quoted: boolean } {
+  if (text[start] === '"') {
+    let i = start + 1;
+    let value = "";
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === "\\") {
+        value += text[i + 1] ?? "";
+        i += 2;
+      } else if (ch === '"') {
+        if (text[i + 1] === '"') {
+          value += '"';
+          i += 2;
+        } else {
+          return { value, end: i + 1, quoted: true };
+        }
+      } else {
+        value += ch;
+        i++;
+      }
+    }
+    return { value, end: i, quoted: true };
+  }
+
+  let i = start;
+  let value = "";
+  while (i < text.length && !stops.includes(text[i])) {
+    if (text[i] === "\\") {
+      value += text[i + 1] ?? "";
+      i += 2;
+    } else {
+      value += text[i];
+      i++;
+    }
+  }
+  if (nullWord && value.trim().toUpperCase() === "NULL") {
+    return { value: null, end: i, quoted: false };
+  }
+  return { value: value.trim(), end: i, quoted: false };
+}
+
+/**
+ * Parse an array literal such as {1,2,NULL} or [0:1]={{a,b},{c,d}}.
+ */
+function parseArray(text: string, delimiter: string, decode: Decoder): unknown[] {
+  // Skip an explicit bounds decoration like "[0:1]="
+  let i = text.startsWith("[") ? text.indexOf("=") + 1 : 0;
+
+  const parseLevel = (): unknown[] => {
+    const items: unknown[] = [];
+    i++; // "{"
+    if (text[i] === "}") {
+      i++;
+      return items;
+    }
+    while (i < text.length) {
+      if (text[i] === "{") {
+        items.push(parseLevel());
+      } else {
+        const element = readElement(text, i, delimiter + "}", true);
+        items.push(element.value === null ? null : decode(element.value));
+        i = element.end;
+      }
+      if (text[i] === delimiter) {
+        i++;
+      } else {
+        i++; // "}"
+        return items;
+      }
+    }
+    return items;
+  };
+
+  return parseLevel();
+}
+
+/**
+ * Parse a range literal such as [1,10) or (,"2024-01-01 00:00:00"].
+ */
+function parseRange(text: string, decode: Decoder): unknown {
+  if (text === "empty") return { empty: true };
+
+  const lowerInclusive = text[0] === "[";
+  const lower = readElement(text, 1, ",", false);
+  const upper = readElement(text, lower.end + 1, ")]", false);
+  const upperInclusive = text[upper.end] === "]";
+
+  const bound = (b: { value: string | null; quoted: boolean }) =>
+    b.value === "" && !b.quoted ? null : decode(b.value ?? "");
+
+  return {
+    lower: bound(lower),
+    upper: bound(upper),
+    lowerInclusive,
+    upperInclusive,
+  };
+}
+
+/**
+ * Split a multirange literal {[1,3),[5,7)} into its range literals.
+ */
+function splitMultirange(text: string): string[] {
+  const ranges: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 1; i < text.length - 1; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === "\\") i++;
+      else if (ch === '"') quoted = false;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === "[" || ch === "(") {
+      if (depth++ === 0) start = i;
+    } else if (ch === "]" || ch === ")") {
+      if (--depth === 0) ranges.push(text.slice(start, i + 1));
+    } else if (depth === 0 && text.startsWith("empty", i)) {
+      ranges.push("empty");
+      i += 4;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Parse a composite literal such as (1,"a b",) into attribute texts
+ * (null for empty unquoted attributes).
+ */
+function parseComposite(text: string): (string | null)[] {
+  const values: (string | null)[] = [];
+  let i = 1;
+  while (i < text.length) {
+    const element = readElement(text, i, ",)", false);
+    values.push(element.value === "" && !element.quoted ? null : element.value);
+    i = element.end;
+    if (text[i] !== ",") break;
+    i++;
+  }
+  return values;
+}
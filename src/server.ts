@@ -0,0 +1,2075 @@
+import { McpServer, ResourceTemplate, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z, ZodRawShape } from "zod";
+import { AuditLog } from "./audit.js";
+import { MaskingPolicy } from "./masking.js";
+import { ColumnInfo } from "./serialization.js";
+import { AccessPolicy, authorizeResourceRead, authorizeToolCall } from "./auth.js";
+import { ConnectionRegistry } from "./connections.js";
+import { CursorPage, cursorLimitsFromEnv, CursorStore } from "./cursors.js";
+import { runWithContext } from "./context.js";
+import { SSL_MODES } from "./database.js";
+import { formatRows, RESULT_FORMATS } from "./formats.js";
+import { listProfiles, resolveConnectionConfig } from "./profiles.js";
+import { SqlClassifier } from "./sql/classifier.js";
+import { SchemaTools } from "./tools/schema.js";
+import { QueryTools } from "./tools/query.js";
+import { OptimizationTools } from "./tools/optimization.js";
+import { ProfileTools } from "./tools/profile.js";
+import { DdlTools } from "./tools/ddl.js";
+import { CatalogTools } from "./tools/catalog.js";
+import { AccessTools, TABLE_PRIVILEGES } from "./tools/access.js";
+import { DependencyTools } from "./tools/dependencies.js";
+import { SEARCH_KINDS, SearchTools } from "./tools/search.js";
+import { DIAGRAM_FORMATS, DIAGRAM_MIME_TYPES, DiagramTools } from "./tools/diagram.js";
+import { SchemaSnapshot, SnapshotStore, SnapshotTools } from "./tools/snapshot.js";
+import { diffSnapshots } from "./schema-diff.js";
+import { ConfirmationStore, WriteTools } from "./tools/write.js";
+import { ExportStore, ExportTools } from "./tools/export.js";
+
+/**
+ * State owned by one MCP client session.
+ */
+export interface SessionContext {
+  id: string;
+  connections: ConnectionRegistry;
+  /** Access policy of the authenticated client; undefined means unrestricted. */
+  policy?: AccessPolicy;
+  /** Shared audit log; null or undefined when auditing is off. */
+  audit?: AuditLog | null;
+  /** Masking applied to query results; null or undefined when there is none. */
+  masking?: MaskingPolicy | null;
+}
+
+const classifier = SqlClassifier.fromEnv();
+
+/** The execute_write tool is only registered when writes are enabled. */
+const writesEnabled =
+  process.argv.includes("--allow-writes") ||
+  process.env.DB_EXPLORER_ALLOW_WRITES === "true";
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+type ToolHandler = (
+  args: Record<string, unknown>,
+  extra: ToolExtra
+) => CallToolResult | Promise<CallToolResult>;
+
+// ─── Helper ──────────────────────────────────────────────────────────────────
+
+function formatResult(data: unknown): string {
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * "name (type, not null, masked: hash)" for the column list of a result.
+ */
+function describeColumn(column: ColumnInfo): string {
+  const notes = [column.type];
+  if (column.nullable === false) notes.push("not null");
+  if (column.masked) notes.push(`masked: ${column.masked}`);
+  return `${column.name} (${notes.join(", ")})`;
+}
+
+/**
+ * Status lines describing whether a page is complete and how to continue.
+ */
+function pageNotes(page: Pick<CursorPage, "truncatedByBytes" | "cursor" | "cursorExpiresAt">): string[] {
+  const notes: string[] = [];
+  if (page.truncatedByBytes) {
+    notes.push("Page cut short at the response size limit.");
+  }
+  if (page.cursor) {
+    notes.push(
+      `More rows available: call fetch_more with cursor "${page.cursor}" (expires ${page.cursorExpiresAt} if unused).`
+    );
+  }
+  return notes;
+}
+
+const formatParam = z
+  .enum(RESULT_FORMATS)
+  .default("json")
+  .describe(
+    "Row format: json (pretty), json_compact, csv, markdown or ndjson. Compact formats use fewer tokens for wide results"
+  );
+
+const connectionParam = z
+  .string()
+  .optional()
+  .describe("Connection alias (default: the active connection)");
+
+const timeoutParams = {
+  timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Statement timeout in ms for this call (cannot exceed the server limit)"),
+  lock_timeout_ms: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Lock wait timeout in ms for this call (cannot exceed the server limit)"),
+};
+
+function errorResult(error: unknown): { content: { type: "text"; text: string }[] } {
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: "text" as const, text: `Error: ${message}` }],
+  };
+}
+
+/**
+ * Create an MCP server whose tools and resources operate on one session's
+ * connections.
+ */
+export function createServer(session: SessionContext): McpServer {
+  const { connections, policy, audit } = session;
+  const masking = session.masking ?? null;
+  const confirmations = new ConfirmationStore();
+  const cursors = new CursorStore(cursorLimitsFromEnv(), masking);
+  const exports = new ExportStore();
+  const snapshots = new SnapshotStore();
+
+  const server = new McpServer({
+    name: "db-explorer",
+    version: "1.0.0",
+    description:
+      "A database exploration and query optimization MCP server for PostgreSQL",
+  });
+
+  // Cursors and exports belong to the session; they go when it closes
+  server.server.onclose = () => {
+    cursors.closeAll().catch((error) => console.error(`Failed to close cursors of session ${session.id}:`, error));
+    exports.clear().catch((error) => console.error(`Failed to delete exports of session ${session.id}:`, error));
+  };
+
+  /**
+   * Register a tool whose every call is checked against the session's access policy.
+   */
+  function tool<Args extends ZodRawShape>(
+    name: string,
+    description: string,
+    paramsSchema: Args,
+    cb: ToolCallback<Args>
+  ): void {
+    const handler = cb as unknown as ToolHandler;
+    const guarded: ToolHandler = (args, extra) => {
+      authorizeToolCall(policy, name, args);
+      return runWithContext(
+        { tool: name, sessionId: session.id, client: policy?.name, signal: extra.signal },
+        () => handler(args, extra)
+      );
+    };
+
+    server.tool(name, description, paramsSchema, guarded as unknown as ToolCallback<Args>);
+  }
+
+  /**
+   * Build the tool instances bound to a connection (the active one by default).
+   */
+  function toolsFor(connection?: string) {
+    const db = connections.get(connection);
+    return {
+      schemaTools: new SchemaTools(db, masking),
+      queryTools: new QueryTools(db, classifier, cursors),
+      optimizationTools: new OptimizationTools(db, classifier),
+      profileTools: new ProfileTools(db, masking),
+      ddlTools: new DdlTools(db),
+      catalogTools: new CatalogTools(db),
+      accessTools: new AccessTools(db),
+      dependencyTools: new DependencyTools(db),
+      searchTools: new SearchTools(db),
+      diagramTools: new DiagramTools(db),
+      snapshotTools: new SnapshotTools(db),
+      writeTools: new WriteTools(db, confirmations, classifier, masking),
+      exportTools: new ExportTools(db, exports, classifier, masking),
+    };
+  }
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // CONNECTION TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "connect",
+    "Connect to a PostgreSQL database under an alias. Must be called before using any other tool. " +
+      "The new connection becomes the active one; other open connections stay live. " +
+      "Prefer a profile name: its credentials are read locally and never pass through the tool call. " +
+      "Settings not given are taken from the profile, the URI, the PG* environment variables and ~/.pgpass.",
+    {
+      alias: z
+        .string()
+        .optional()
+        .describe("Name for this connection (default: the profile name, or 'default')"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Name of a connection profile from the local profiles file"),
+      uri: z
+        .string()
+        .optional()
+        .describe("Connection URI (postgres://user@host:port/database?sslmode=require)"),
+      host: z.string().optional().describe("Database host (e.g. localhost)"),
+      port: z.number().optional().describe("Database port"),
+      database: z.string().optional().describe("Database name"),
+      user: z.string().optional().describe("Database user"),
+      password: z
+        .string()
+        .optional()
+        .describe("Database password (avoid: use a profile, PGPASSWORD or ~/.pgpass instead)"),
+      sslmode: z
+        .enum(SSL_MODES)
+        .optional()
+        .describe(
+          "TLS mode: disable, require (encrypt only), verify-ca (check the certificate chain), " +
+            "verify-full (also check the server name)"
+        ),
+      sslservername: z
+        .string()
+        .optional()
+        .describe("Server name expected in the certificate (default: host)"),
+    },
+    async ({ alias, ...input }) => {
+      try {
+        const config = await resolveConnectionConfig(input);
+        const name = alias ?? input.profile ?? "default";
+        await connections.connect(name, config);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Successfully connected to PostgreSQL at ${config.host}:${config.port}/${config.database} as "${name}"`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_profiles",
+    "List the connection profiles available to the 'connect' tool. Passwords are never shown.",
+    {},
+    async () => {
+      try {
+        const profiles = (await listProfiles()).filter(
+          (p) => !policy?.profiles || policy.profiles.includes("*") || policy.profiles.includes(p.name)
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: profiles.length > 0
+                ? formatResult(profiles)
+                : "No connection profiles found (set DB_EXPLORER_PROFILES or create ~/.config/db-explorer/profiles.json).",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "disconnect",
+    "Disconnect from a database (the active connection by default).",
+    {
+      connection: connectionParam,
+    },
+    async ({ connection }) => {
+      try {
+        const alias = await connections.disconnect(connection);
+        const active = connections.getActiveAlias();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `Disconnected "${alias}" successfully.` +
+                (active ? ` Active connection is now "${active}".` : ""),
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "connection_status",
+    "Check database connection status (the active connection by default), including the negotiated TLS protocol and cipher.",
+    {
+      connection: connectionParam,
+    },
+    async ({ connection }) => {
+      if (connection === undefined && connections.getActiveAlias() === null) {
+        return {
+          content: [
+            { type: "text" as const, text: "Not connected to any database." },
+          ],
+        };
+      }
+      try {
+        const alias = connection ?? connections.getActiveAlias()!;
+        const db = connections.get(alias);
+        const info = db.getConnectionInfo()!;
+        const tls = await db.getTlsStatus();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `"${alias}": connected to ${info.host}:${info.port}/${info.database} as ${info.user}\n\n` +
+                `TLS:\n${formatResult(tls)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_connections",
+    "List all open database connections and which one is active.",
+    {},
+    async () => {
+      const list = connections.list();
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: list.length > 0
+              ? formatResult(list)
+              : "Not connected to any database.",
+          },
+        ],
+      };
+    }
+  );
+
+  tool(
+    "switch_connection",
+    "Make another open connection the active one.",
+    {
+      alias: z.string().describe("Alias of the connection to activate"),
+    },
+    async ({ alias }) => {
+      try {
+        connections.switchTo(alias);
+        return {
+          content: [
+            { type: "text" as const, text: `Active connection is now "${alias}".` },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // SCHEMA EXPLORATION TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "list_schemas",
+    "List all user-defined schemas in the current database.",
+    {
+      connection: connectionParam,
+    },
+    async ({ connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const schemas = await schemaTools.listSchemas();
+        return {
+          content: [{ type: "text" as const, text: formatResult(schemas) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "search_schema",
+    "Search table, view, column, function, and enum names, COMMENT ON descriptions, and view and function bodies for some words, e.g. 'customer email'. " +
+      "Names match exactly, by prefix, as substrings, or fuzzily despite typos; results are ranked, and each hit names the tool call that shows its object.",
+    {
+      query: z.string().describe("Words to search for"),
+      schema: z
+        .string()
+        .optional()
+        .describe("Only search this schema (default: every user schema)"),
+      kinds: z
+        .array(z.enum(SEARCH_KINDS))
+        .optional()
+        .describe("Only return these kinds of objects"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Maximum number of hits (default: 20)"),
+      connection: connectionParam,
+    },
+    async ({ query, schema, kinds, limit, connection }) => {
+      try {
+        const { searchTools } = toolsFor(connection);
+        const hits = await searchTools.searchSchema(query, { schema, kinds, limit });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: hits.length > 0
+                ? formatResult(hits)
+                : `Nothing matches "${query}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_tables",
+    "List all tables in a given schema. With fold_partitions, partitions are listed under their parent table instead of on their own.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      fold_partitions: z
+        .boolean()
+        .default(false)
+        .describe("List partitions under their parent table (default: false)"),
+      connection: connectionParam,
+    },
+    async ({ schema, fold_partitions, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const tables = fold_partitions
+          ? await schemaTools.listTablesFolded(schema)
+          : await schemaTools.listTables(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: tables.length > 0
+                ? formatResult(tables)
+                : `No tables found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_views",
+    "List all views in a given schema.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const views = await schemaTools.listViews(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: views.length > 0
+                ? formatResult(views)
+                : `No views found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_materialized_views",
+    "List the materialized views in a schema with their definition, whether they are populated, size, indexes, " +
+      "and when their data file was last modified (if the server allows reading file times). " +
+      "VACUUM and checkpoints also change that time, so it is not the last REFRESH time.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const views = await schemaTools.listMaterializedViews(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: views.length > 0
+                ? formatResult(views)
+                : `No materialized views found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_partitions",
+    "Show the partition tree of a partitioned table: partition key, each partition's bound, size and estimated rows, sub-partitions, and the default partition.",
+    {
+      table: z.string().describe("Partitioned table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const tree = await schemaTools.listPartitions(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: tree
+                ? formatResult(tree)
+                : `Table "${schema}.${table}" not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "describe_table",
+    "Describe a table's columns, data types, nullability, defaults, and comments, which columns are masked in query results, the table's own comment, and any triggers attached to the table.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const columns = await schemaTools.describeTable(table, schema);
+        const triggers = await schemaTools.listTriggers(table, schema);
+        const comment = await schemaTools.getTableComment(table, schema);
+        let text = (comment ? `Comment: ${comment}\n\n` : "") + formatResult(columns);
+        if (triggers.length > 0) {
+          text +=
+            "\n\nTriggers (see list_triggers for details):\n" +
+            triggers
+              .map(
+                (t) =>
+                  `  ${t.trigger_name}: ${t.timing} ${t.events.join(" OR ")} FOR EACH ${t.level} → ${t.function}()` +
+                  (t.enabled === "disabled" ? " [disabled]" : "")
+              )
+              .join("\n");
+        }
+        return {
+          content: [{ type: "text" as const, text }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "get_foreign_keys",
+    "Get all foreign key relationships for a table.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const fks = await schemaTools.getForeignKeys(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: fks.length > 0
+                ? formatResult(fks)
+                : `No foreign keys found on "${schema}.${table}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "find_join_path",
+    "Find the shortest foreign key paths between two tables, following references in both directions " +
+      "(including multi-column keys), with ready-to-use FROM ... JOIN ... ON ... clauses.",
+    {
+      from_table: z
+        .string()
+        .describe("Table to start from (\"table\" or \"schema.table\"; double-quote names containing a dot)"),
+      to_table: z
+        .string()
+        .describe("Table to reach (\"table\" or \"schema.table\"; double-quote names containing a dot)"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema of unqualified table names (default: public)"),
+      max_hops: z
+        .number()
+        .int()
+        .min(1)
+        .max(8)
+        .default(4)
+        .describe("Longest path to look for, in joins (default: 4)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .default(5)
+        .describe("Maximum number of paths to return (default: 5)"),
+      connection: connectionParam,
+    },
+    async ({ from_table, to_table, schema, max_hops, limit, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const paths = await schemaTools.findJoinPaths(from_table, to_table, schema, {
+          maxHops: max_hops,
+          limit,
+        });
+        if (paths.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No foreign key path of at most ${max_hops} joins between "${from_table}" and "${to_table}".`,
+              },
+            ],
+          };
+        }
+
+        const output = paths.map((path, i) => {
+          const via = path.steps
+            .map((step) => `${step.constraint} (${step.direction === "outgoing" ? "references" : "referenced by"} ${step.to})`)
+            .join(", ");
+          return `Path ${i + 1}: ${path.tables.join(" → ")}\nVia: ${via}\n\n${path.sql}`;
+        });
+        return {
+          content: [{ type: "text" as const, text: output.join("\n\n") }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_indexes",
+    "List all indexes on a table, including type, uniqueness, and columns.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const indexes = await schemaTools.listIndexes(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: indexes.length > 0
+                ? formatResult(indexes)
+                : `No indexes found on "${schema}.${table}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "get_constraints",
+    "Get every constraint on a table (PRIMARY KEY, UNIQUE, FOREIGN KEY, CHECK, EXCLUDE, constraint triggers, and NOT NULL where the server records it) with its full definition, columns, deferrability, and NOT VALID state. Foreign keys include the referenced table, ON UPDATE/ON DELETE actions, and match type.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const constraints = await schemaTools.getConstraints(table, schema);
+        return {
+          content: [{ type: "text" as const, text: formatResult(constraints) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_triggers",
+    "List the triggers on a table: timing, events, row or statement level, trigger function, and whether each is enabled.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const triggers = await schemaTools.listTriggers(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: triggers.length > 0
+                ? formatResult(triggers)
+                : `No triggers found on "${schema}.${table}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_event_triggers",
+    "List the database's event triggers: the DDL event, command tags, trigger function, and whether each is enabled.",
+    {
+      connection: connectionParam,
+    },
+    async ({ connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const triggers = await schemaTools.listEventTriggers();
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: triggers.length > 0
+                ? formatResult(triggers)
+                : "No event triggers defined.",
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_functions",
+    "List the functions and procedures in a schema with their arguments, return type, language, volatility, and security definer flag. Functions installed by extensions are left out.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const functions = await schemaTools.listFunctions(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: functions.length > 0
+                ? formatResult(functions)
+                : `No functions found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "get_function_definition",
+    "Get the full CREATE OR REPLACE definition of a function or procedure, with its arguments, return type, language, volatility, and security definer flag. Overloads are all returned unless argument types are given.",
+    {
+      name: z.string().describe("Function or procedure name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      argument_types: z
+        .string()
+        .optional()
+        .describe("Argument types to pick one overload, e.g. 'integer, text'"),
+      connection: connectionParam,
+    },
+    async ({ name, schema, argument_types, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const functions = await schemaTools.getFunctionDefinition(name, schema, argument_types);
+        if (functions.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Function "${schema}.${name}${argument_types !== undefined ? `(${argument_types})` : ""}" not found.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [{ type: "text" as const, text: formatResult(functions) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_enums",
+    "List the enum types in a schema with their labels in sort order.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { catalogTools } = toolsFor(connection);
+        const enums = await catalogTools.listEnums(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: enums.length > 0
+                ? formatResult(enums)
+                : `No enum types found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_domains",
+    "List the domains in a schema with their base type, NOT NULL, default, collation, and CHECK constraints.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { catalogTools } = toolsFor(connection);
+        const domains = await catalogTools.listDomains(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: domains.length > 0
+                ? formatResult(domains)
+                : `No domains found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_composite_types",
+    "List the composite types in a schema with their field names and types.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { catalogTools } = toolsFor(connection);
+        const types = await catalogTools.listCompositeTypes(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: types.length > 0
+                ? formatResult(types)
+                : `No composite types found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_extensions",
+    "List installed extensions with their version, schema, and whether a newer version is available, followed by the extensions the server could install.",
+    {
+      installed_only: z
+        .boolean()
+        .default(false)
+        .describe("Only list installed extensions (default: false)"),
+      connection: connectionParam,
+    },
+    async ({ installed_only, connection }) => {
+      try {
+        const { catalogTools } = toolsFor(connection);
+        const extensions = await catalogTools.listExtensions(installed_only);
+        return {
+          content: [{ type: "text" as const, text: formatResult(extensions) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "table_stats",
+    "Get table statistics: row counts, sizes, vacuum status, and dead tuples.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { schemaTools } = toolsFor(connection);
+        const stats = await schemaTools.getTableStats(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: stats
+                ? formatResult(stats)
+                : `Table "${schema}.${table}" not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "object_dependencies",
+    "Find everything that depends on a table or column, recursively: views, materialized views, indexes, constraints, foreign keys, triggers, policies, sequences and functions (where PostgreSQL tracks them, plus functions whose source mentions the name). " +
+      "Flags the dependents that would make DROP TABLE or DROP COLUMN fail without CASCADE.",
+    {
+      table: z.string().describe("Table, view or materialized view name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      column: z.string().optional().describe("Only dependents of this column"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, column, connection }) => {
+      try {
+        const { dependencyTools } = toolsFor(connection);
+        const report = await dependencyTools.objectDependencies(table, schema, column);
+        return {
+          content: [{ type: "text" as const, text: formatResult(report) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "get_table_ddl",
+    "Rebuild the CREATE TABLE statement of a table from the catalogs, pg_dump style: column types, " +
+      "defaults, identity and generated columns, constraints, indexes, partitioning, comments, owner and grants.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { ddlTools } = toolsFor(connection);
+        const ddl = await ddlTools.getTableDdl(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: ddl ?? `Table "${schema}.${table}" not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "get_schema_ddl",
+    "Rebuild the DDL of every table in a schema as one script, with partitions after their parents " +
+      "and foreign keys at the end.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { ddlTools } = toolsFor(connection);
+        const ddl = await ddlTools.getSchemaDdl(schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: ddl ?? `No tables found in schema "${schema}".`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "schema_diagram",
+    "Draw an entity-relationship diagram of the foreign keys in a schema, as Mermaid (erDiagram) or " +
+      "Graphviz DOT, with PK/FK/UK markers and cardinality inferred from uniqueness and nullability. " +
+      "Give tables to draw only those and their neighbours within a number of hops. " +
+      "Also available as the db://diagrams/{schema}/{format} resource.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      format: z
+        .enum(DIAGRAM_FORMATS)
+        .default("mermaid")
+        .describe("Diagram format: mermaid or dot (default: mermaid)"),
+      tables: z
+        .array(z.string())
+        .optional()
+        .describe("Start from these tables instead of the whole schema"),
+      hops: z
+        .number()
+        .int()
+        .min(0)
+        .max(5)
+        .default(1)
+        .describe("Foreign key hops to follow from the given tables, in either direction (default: 1)"),
+      connection: connectionParam,
+    },
+    async ({ schema, format, tables, hops, connection }) => {
+      try {
+        const { diagramTools } = toolsFor(connection);
+        const diagram = await diagramTools.schemaDiagram(schema, format, { tables, hops });
+        return {
+          content: [{ type: "text" as const, text: diagram }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "profile_table",
+    "Profile the data in a table column by column: null fraction, distinct values, most common values, " +
+      "histogram and correlation from pg_stats, plus min/max, value lengths, detected formats " +
+      "(email, UUID, URL, dates, numbers, JSON) and JSON shape from a TABLESAMPLE of its rows. Runs read-only.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      columns: z
+        .array(z.string())
+        .optional()
+        .describe("Only profile these columns (default: all)"),
+      sample_rows: z
+        .number()
+        .int()
+        .min(0)
+        .max(10000)
+        .default(1000)
+        .describe("Rows to sample for min/max, lengths and formats; 0 uses pg_stats only (default: 1000)"),
+      ...timeoutParams,
+      connection: connectionParam,
+    },
+    async ({ table, schema, columns, sample_rows, timeout_ms, lock_timeout_ms, connection }) => {
+      try {
+        const { profileTools } = toolsFor(connection);
+        const profile = await profileTools.profileTable(table, schema, {
+          columns,
+          sampleRows: sample_rows,
+          statementTimeoutMs: timeout_ms,
+          lockTimeoutMs: lock_timeout_ms,
+        });
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: profile
+                ? formatResult(profile)
+                : `Table "${schema}.${table}" not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // QUERY EXECUTION TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "run_query",
+    "Execute a read-only SQL query. Destructive operations (INSERT, UPDATE, DELETE, DROP, etc.) are blocked. " +
+      "Results are read through a server-side cursor: the first page is returned, and if more rows " +
+      "remain, a cursor handle for fetch_more.",
+    {
+      sql: z.string().describe("SQL query to execute (SELECT only)"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .default(100)
+        .describe("Rows per page (default: 100)"),
+      format: formatParam,
+      ...timeoutParams,
+      connection: connectionParam,
+    },
+    async ({ sql, limit, format, timeout_ms, lock_timeout_ms, connection }) => {
+      try {
+        const { queryTools } = toolsFor(connection);
+        const result = await queryTools.executeQuery(sql, undefined, limit, {
+          statementTimeoutMs: timeout_ms,
+          lockTimeoutMs: lock_timeout_ms,
+        });
+        const output = [
+          `Columns: ${result.columns.map(describeColumn).join(", ")}`,
+          `Rows returned: ${result.rowCount}`,
+          `Execution time: ${result.executionTimeMs}ms`,
+          ...pageNotes(result),
+          "",
+          formatRows(result.columns.map((c) => c.name), result.rows, format),
+        ].join("\n");
+
+        return {
+          content: [{ type: "text" as const, text: output }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "fetch_more",
+    "Fetch the next page of rows from a cursor returned by run_query. " +
+      "Cursors close when all rows have been read or after a period without fetches.",
+    {
+      cursor: z.string().describe("Cursor handle from run_query or a previous fetch_more"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .default(100)
+        .describe("Rows per page (default: 100)"),
+      format: formatParam,
+    },
+    async ({ cursor, limit, format }) => {
+      try {
+        const page = await cursors.fetchMore(cursor, limit);
+        const output = [
+          `Rows returned: ${page.rows.length}`,
+          ...pageNotes(page),
+          "",
+          formatRows(page.columns.map((c) => c.name), page.rows, format),
+        ].join("\n");
+
+        return {
+          content: [{ type: "text" as const, text: output }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "export_query",
+    "Run a read-only query and stream its full result to a local file (CSV, NDJSON, JSON or Markdown). " +
+      "The file is registered as a db://exports/{id} resource that can be read later in this session; " +
+      "it is deleted when the session closes or the export expires.",
+    {
+      sql: z.string().describe("SQL query to export (SELECT only)"),
+      format: z
+        .enum(["csv", "ndjson", "json", "markdown"])
+        .default("csv")
+        .describe("File format (default: csv)"),
+      max_rows: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Stop after this many rows (default: no limit)"),
+      ...timeoutParams,
+      connection: connectionParam,
+    },
+    async ({ sql, format, max_rows, timeout_ms, lock_timeout_ms, connection }) => {
+      try {
+        const { exportTools } = toolsFor(connection);
+        const file = await exportTools.exportQuery(sql, format, max_rows, {
+          statementTimeoutMs: timeout_ms,
+          lockTimeoutMs: lock_timeout_ms,
+        });
+        server.sendResourceListChanged();
+
+        const output = [
+          `Exported ${file.rowCount} row(s) (${file.bytes} bytes).`,
+          `Resource: ${file.uri}`,
+        ].join("\n");
+        return {
+          content: [{ type: "text" as const, text: output }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "explain_query",
+    "Show the execution plan for a SQL query (EXPLAIN). Helps identify performance bottlenecks.",
+    {
+      sql: z.string().describe("SQL query to analyze"),
+      analyze: z
+        .boolean()
+        .default(false)
+        .describe(
+          "If true, actually executes the query to get real timing (EXPLAIN ANALYZE)"
+        ),
+      ...timeoutParams,
+      connection: connectionParam,
+    },
+    async ({ sql, analyze, timeout_ms, lock_timeout_ms, connection }) => {
+      try {
+        const { queryTools } = toolsFor(connection);
+        const plan = await queryTools.explainQuery(sql, analyze, {
+          statementTimeoutMs: timeout_ms,
+          lockTimeoutMs: lock_timeout_ms,
+        });
+        const output = [
+          `Planning time: ${plan.planningTimeMs}ms`,
+          `Execution time: ${plan.executionTimeMs}ms`,
+          plan.warnings.length > 0
+            ? `\n⚠ Warnings:\n${plan.warnings.map((w) => `  • ${w}`).join("\n")}`
+            : "",
+          `\nQuery Plan:\n${plan.plan}`,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text" as const, text: output }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "query_cost",
+    "Get the estimated cost and row count for a SQL query without executing it.",
+    {
+      sql: z.string().describe("SQL query to estimate cost for"),
+      connection: connectionParam,
+    },
+    async ({ sql, connection }) => {
+      try {
+        const { queryTools } = toolsFor(connection);
+        const cost = await queryTools.getQueryCost(sql);
+        return {
+          content: [{ type: "text" as const, text: formatResult(cost) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  if (writesEnabled) {
+    tool(
+      "execute_write",
+      "Run an INSERT, UPDATE, DELETE or MERGE. Without confirmation_token this is a dry run: " +
+        "the statement runs in a transaction that is rolled back, and the affected row count, a " +
+        "before/after sample and a one-time confirmation token are returned. Call again with the " +
+        "same sql, params and connection plus that token to commit.",
+      {
+        sql: z.string().describe("A single INSERT, UPDATE, DELETE or MERGE statement"),
+        params: z
+          .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+          .optional()
+          .describe("Values for $1, $2, ... placeholders"),
+        confirmation_token: z
+          .string()
+          .optional()
+          .describe("Token from a previous dry run of this exact statement; commits it"),
+        sample_size: z
+          .number()
+          .int()
+          .min(0)
+          .max(50)
+          .default(5)
+          .describe("Changed rows to include in the dry-run sample (default: 5)"),
+        connection: connectionParam,
+      },
+      async ({ sql, params, confirmation_token, sample_size, connection }) => {
+        try {
+          const { writeTools } = toolsFor(connection);
+          const alias = connection ?? connections.getActiveAlias()!;
+
+          if (confirmation_token) {
+            const result = await writeTools.commit(sql, params, alias, confirmation_token);
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Committed. ${result.statementType} on ${result.table} affected ${result.rowCount} row(s).`,
+                },
+              ],
+            };
+          }
+
+          const preview = await writeTools.preview(sql, params, alias, sample_size);
+          const output = [
+            `DRY RUN (rolled back): ${preview.statementType} on ${preview.table} would affect ${preview.rowCount} row(s).`,
+            "",
+            `Sample of changed rows (up to ${sample_size}):`,
+            formatResult(preview.sample),
+            "",
+            `To commit, call execute_write again with the same sql, params and connection and ` +
+              `confirmation_token "${preview.confirmationToken}" (single use, expires ${preview.expiresAt}).`,
+          ].join("\n");
+
+          return {
+            content: [{ type: "text" as const, text: output }],
+          };
+        } catch (error) {
+          return errorResult(error);
+        }
+      }
+    );
+  }
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // ACCESS CONTROL TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "list_roles",
+    "List database roles with their attributes (superuser, login, inherit, BYPASSRLS, connection limit) and the roles each one is a member of.",
+    {
+      include_system: z
+        .boolean()
+        .default(false)
+        .describe("Include the predefined pg_* roles (default: false)"),
+      connection: connectionParam,
+    },
+    async ({ include_system, connection }) => {
+      try {
+        const { accessTools } = toolsFor(connection);
+        const roles = await accessTools.listRoles(include_system);
+        return {
+          content: [{ type: "text" as const, text: formatResult(roles) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "table_privileges",
+    "Show a role's effective privileges on a table, counting grants to PUBLIC and to roles it inherits from, plus any columns it holds extra column-level privileges on.",
+    {
+      role: z.string().describe("Role name"),
+      table: z.string().describe("Table or view name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ role, table, schema, connection }) => {
+      try {
+        const { accessTools } = toolsFor(connection);
+        const privileges = await accessTools.tablePrivileges(role, table, schema);
+        return {
+          content: [{ type: "text" as const, text: formatResult(privileges) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "list_policies",
+    "Show whether row-level security is enabled and forced on a table, and its policies: roles, command, USING and WITH CHECK expressions.",
+    {
+      table: z.string().describe("Table name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ table, schema, connection }) => {
+      try {
+        const { accessTools } = toolsFor(connection);
+        const security = await accessTools.rowSecurity(table, schema);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: security
+                ? formatResult(security)
+                : `Table "${schema}.${table}" not found.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "check_access",
+    "Explain whether a role can perform an action on a table or column: superuser status, schema USAGE, which grants (direct, PUBLIC or inherited) supply the privilege or why none do, and how row-level security limits the rows.",
+    {
+      role: z.string().describe("Role name"),
+      action: z.enum(TABLE_PRIVILEGES).describe("Privilege to check"),
+      table: z.string().describe("Table or view name"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      column: z
+        .string()
+        .optional()
+        .describe("Check a single column (SELECT, INSERT, UPDATE and REFERENCES only)"),
+      connection: connectionParam,
+    },
+    async ({ role, action, table, schema, column, connection }) => {
+      try {
+        const { accessTools } = toolsFor(connection);
+        const check = await accessTools.checkAccess(role, action, table, schema, column);
+        return {
+          content: [{ type: "text" as const, text: formatResult(check) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // SCHEMA DRIFT TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "schema_snapshot",
+    "Save the catalog state of a schema (tables, columns, constraints, indexes, views, functions) " +
+      "as a named JSON snapshot, for comparing later with schema_diff.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      name: z
+        .string()
+        .optional()
+        .describe("Snapshot name (default: <connection database>-<schema>-<timestamp>)"),
+      connection: connectionParam,
+    },
+    async ({ schema, name, connection }) => {
+      try {
+        const { snapshotTools } = toolsFor(connection);
+        const snapshot = await snapshotTools.takeSnapshot(schema);
+        const snapshotName =
+          name ??
+          `${connections.get(connection).getConnectionInfo()?.database ?? "db"}-${schema}-` +
+            snapshot.takenAt.replace(/[:.]/g, "-");
+        const path = await snapshots.save(snapshotName, snapshot);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                `Saved snapshot "${snapshotName}" of ${snapshot.source} schema "${schema}" to ${path}: ` +
+                `${Object.keys(snapshot.tables).length} tables, ${Object.keys(snapshot.views).length} views, ` +
+                `${Object.keys(snapshot.functions).length} functions.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "schema_diff",
+    "Compare a schema between two snapshots, two connections, or a snapshot and a live connection. " +
+      "Reports added, removed and changed tables, columns, constraints, indexes, views and functions, " +
+      "with a best-effort migration script that turns the 'from' side into the 'to' side.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema to compare on live connections (default: public)"),
+      from_snapshot: z.string().optional().describe("Snapshot to compare from"),
+      from_connection: z
+        .string()
+        .optional()
+        .describe("Connection alias to compare from, read live"),
+      to_snapshot: z.string().optional().describe("Snapshot to compare to"),
+      to_connection: z
+        .string()
+        .optional()
+        .describe("Connection alias to compare to, read live (default: the active connection)"),
+    },
+    async ({ schema, from_snapshot, from_connection, to_snapshot, to_connection }) => {
+      try {
+        if (from_snapshot && from_connection) {
+          throw new Error("Give either from_snapshot or from_connection, not both.");
+        }
+        if (!from_snapshot && !from_connection) {
+          throw new Error("Give from_snapshot or from_connection.");
+        }
+        if (to_snapshot && to_connection) {
+          throw new Error("Give either to_snapshot or to_connection, not both.");
+        }
+
+        const load = (snapshot?: string, connection?: string): Promise<SchemaSnapshot> =>
+          snapshot
+            ? snapshots.load(snapshot)
+            : toolsFor(connection).snapshotTools.takeSnapshot(schema);
+        const diff = diffSnapshots(
+          await load(from_snapshot, from_connection),
+          await load(to_snapshot, to_connection)
+        );
+
+        const summary = diff.changes.map(
+          (c) =>
+            `  ${c.change === "added" ? "+" : c.change === "removed" ? "-" : "~"} ${c.object} ${c.name}` +
+            (c.details ? `\n${c.details.map((d) => `      ${d}`).join("\n")}` : "")
+        );
+        const output = [
+          `From: ${diff.from}`,
+          `To:   ${diff.to}`,
+          "",
+          diff.changes.length > 0
+            ? `${diff.changes.length} difference(s):\n${summary.join("\n")}`
+            : "No differences.",
+          "",
+          "Migration SQL:",
+          diff.migration,
+        ].join("\n");
+
+        return {
+          content: [{ type: "text" as const, text: output }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // OPTIMIZATION TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "suggest_indexes",
+    "Analyze a SQL query's execution plan and suggest indexes to improve performance.",
+    {
+      sql: z.string().describe("SQL query to analyze for index suggestions"),
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ sql, schema, connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const suggestions = await optimizationTools.suggestIndexes(sql, schema);
+
+        if (suggestions.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No index suggestions for this query. The query plan looks optimal.",
+              },
+            ],
+          };
+        }
+
+        const output = suggestions
+          .map(
+            (s, i) =>
+              `${i + 1}. [${s.impact.toUpperCase()}] ${s.table}\n` +
+              `   Columns: ${s.columns.join(", ")}\n` +
+              `   Reason: ${s.reason}\n` +
+              `   SQL: ${s.createStatement}`
+          )
+          .join("\n\n");
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Index Suggestions:\n\n${output}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "slow_queries",
+    "Find the slowest queries using pg_stat_statements (requires the extension to be installed).",
+    {
+      limit: z
+        .number()
+        .default(10)
+        .describe("Number of slow queries to return (default: 10)"),
+      connection: connectionParam,
+    },
+    async ({ limit, connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const queries = await optimizationTools.getSlowQueries(limit);
+        return {
+          content: [{ type: "text" as const, text: formatResult(queries) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "unused_indexes",
+    "Find indexes that have never been used (candidates for removal to save space and write overhead).",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const indexes = await optimizationTools.findUnusedIndexes(schema);
+
+        if (indexes.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No unused indexes found. All indexes appear to be in use.",
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: formatResult(indexes) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "duplicate_indexes",
+    "Find duplicate indexes (multiple indexes covering the same columns on the same table).",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const duplicates = await optimizationTools.findDuplicateIndexes(schema);
+
+        if (duplicates.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "No duplicate indexes found.",
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [{ type: "text" as const, text: formatResult(duplicates) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "table_bloat",
+    "Estimate table bloat – wasted space from dead tuples that can be reclaimed with VACUUM.",
+    {
+      schema: z
+        .string()
+        .default("public")
+        .describe("Schema name (default: public)"),
+      connection: connectionParam,
+    },
+    async ({ schema, connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const bloat = await optimizationTools.getTableBloat(schema);
+        return {
+          content: [{ type: "text" as const, text: formatResult(bloat) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  tool(
+    "database_health",
+    "Get an overview of database health: size, connections, cache hit ratio, and transaction counts.",
+    {
+      connection: connectionParam,
+    },
+    async ({ connection }) => {
+      try {
+        const { optimizationTools } = toolsFor(connection);
+        const health = await optimizationTools.getDatabaseHealth();
+        return {
+          content: [{ type: "text" as const, text: formatResult(health) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // AUDIT TOOLS
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  tool(
+    "audit_log",
+    "Search the audit log of statements this server sent to PostgreSQL, newest first. " +
+      "Authenticated HTTP clients only see entries recorded under their own token.",
+    {
+      tool: z.string().optional().describe("Only statements issued by this tool"),
+      connection: z.string().optional().describe("Only statements on this connection alias"),
+      session: z.string().optional().describe("Only statements from this MCP session"),
+      contains: z.string().optional().describe("Case-insensitive text to look for in the SQL"),
+      errors_only: z.boolean().default(false).describe("Only statements that failed"),
+      since: z.string().optional().describe("Only entries at or after this ISO 8601 timestamp"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .default(50)
+        .describe("Maximum entries to return (default: 50)"),
+    },
+    async ({ tool: toolName, connection, session: sessionId, contains, errors_only, since, limit }) => {
+      try {
+        if (!audit) {
+          return {
+            content: [
+              { type: "text" as const, text: "Audit logging is disabled (DB_EXPLORER_AUDIT_LOG=off)." },
+            ],
+          };
+        }
+
+        const entries = await audit.search({
+          tool: toolName,
+          connection,
+          session: sessionId,
+          client: policy?.name,
+          contains,
+          errorsOnly: errors_only,
+          since,
+          limit,
+        });
+        return {
+          content: [{ type: "text" as const, text: formatResult(entries) }],
+        };
+      } catch (error) {
+        return errorResult(error);
+      }
+    }
+  );
+
+  // ═════════════════════════════════════════════════════════════════════════════
+  // RESOURCES (Contextual database info exposed via MCP resources)
+  // ═════════════════════════════════════════════════════════════════════════════
+
+  /** The tools whose data each resource serves; the access policy must allow all of them. */
+  const RESOURCE_TOOLS = {
+    "database-overview": ["list_schemas", "list_tables"],
+    "query-exports": ["export_query"],
+    "schema-diagrams": ["schema_diagram"],
+  };
+
+  /**
+   * Check a read of a resource against the session's access policy.
+   */
+  function authorizeResource(name: keyof typeof RESOURCE_TOOLS): void {
+    authorizeResourceRead(policy, name, RESOURCE_TOOLS[name]);
+  }
+
+  /**
+   * Whether the session's access policy lets it list a resource's entries.
+   */
+  function mayList(name: keyof typeof RESOURCE_TOOLS): boolean {
+    try {
+      authorizeResource(name);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run a resource handler in a request context, like a tool call, so its
+   * statements are attributed to the session and can be cancelled.
+   */
+  function inResourceContext<T>(uri: string, extra: { signal: AbortSignal }, fn: () => T): T {
+    return runWithContext(
+      { tool: `resource:${uri}`, sessionId: session.id, client: policy?.name, signal: extra.signal },
+      fn
+    );
+  }
+
+  server.resource(
+    "database-overview",
+    "db://overview",
+    (uri, extra) => inResourceContext(uri.href, extra, async () => {
+      authorizeResource("database-overview");
+      const list = connections.list();
+      if (list.length === 0) {
+        return {
+          contents: [
+            {
+              uri: uri.href,
+              mimeType: "text/plain",
+              text: "Not connected to a database. Use the 'connect' tool first.",
+            },
+          ],
+        };
+      }
+
+      const overview: Record<string, unknown> = {};
+
+      for (const { alias, ...connection } of list) {
+        try {
+          const { schemaTools } = toolsFor(alias);
+          const schemas = await schemaTools.listSchemas();
+          const tablesPerSchema: Record<string, string[]> = {};
+
+          for (const schema of schemas) {
+            tablesPerSchema[schema] = await schemaTools.listTables(schema);
+          }
+
+          overview[alias] = { connection, schemas: tablesPerSchema };
+        } catch (error) {
+          overview[alias] = {
+            connection,
+            error: `Error generating overview: ${error instanceof Error ? error.message : String(error)}`,
+          };
+        }
+      }
+
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/json",
+            text: JSON.stringify({ connections: overview }, null, 2),
+          },
+        ],
+      };
+    })
+  );
+
+  server.resource(
+    "query-exports",
+    new ResourceTemplate("db://exports/{id}", {
+      list: (extra) => inResourceContext("db://exports/{id}", extra, async () => ({
+        resources: (mayList("query-exports") ? await exports.list() : []).map((file) => ({
+          uri: file.uri,
+          name: `Export ${file.id}`,
+          description: `${file.rowCount} row(s), ${file.format}, created ${file.createdAt}`,
+          mimeType: file.mimeType,
+        })),
+      })),
+    }),
+    (uri, { id }, extra) => inResourceContext(uri.href, extra, async () => {
+      authorizeResource("query-exports");
+      const { file, text } = await exports.read(String(id));
+      return {
+        contents: [{ uri: uri.href, mimeType: file.mimeType, text }],
+      };
+    })
+  );
+
+  server.resource(
+    "schema-diagrams",
+    new ResourceTemplate("db://diagrams/{schema}/{format}", {
+      list: (extra) => inResourceContext("db://diagrams/{schema}/{format}", extra, async () => {
+        if (connections.list().length === 0 || !mayList("schema-diagrams")) {
+          return { resources: [] };
+        }
+        const schemas = await toolsFor().schemaTools.listSchemas();
+        return {
+          resources: schemas.flatMap((schema) =>
+            DIAGRAM_FORMATS.map((format) => ({
+              uri: `db://diagrams/${encodeURIComponent(schema)}/${format}`,
+              name: `${schema} diagram (${format})`,
+              description: `Entity-relationship diagram of schema "${schema}" on the active connection`,
+              mimeType: DIAGRAM_MIME_TYPES[format],
+            }))
+          ),
+        };
+      }),
+    }),
+    (uri, { schema, format }, extra) => inResourceContext(uri.href, extra, async () => {
+      authorizeResource("schema-diagrams");
+      const diagramFormat = DIAGRAM_FORMATS.find((f) => f === String(format));
+      if (!diagramFormat) {
+        throw new Error(`Unknown diagram format "${format}" (expected ${DIAGRAM_FORMATS.join(" or ")}).`);
+      }
+      const { diagramTools } = toolsFor();
+      const text = await diagramTools.schemaDiagram(
+        decodeURIComponent(String(schema)),
+        diagramFormat
+      );
+      return {
+        contents: [{ uri: uri.href, mimeType: DIAGRAM_MIME_TYPES[diagramFormat], text }],
+      };
+    })
+  );
+
+  return server;
+}
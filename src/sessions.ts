@@ -0,0 +1,136 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { AuditLog } from "./audit.js";
+import { AccessPolicy } from "./auth.js";
+import { MaskingPolicy } from "./masking.js";
+import { ConnectionRegistry } from "./connections.js";
+import { createServer, SessionContext } from "./server.js";
+
+export interface Session<T extends Transport = Transport> extends SessionContext {
+  server: McpServer;
+  transport: T;
+  lastActivity: number;
+}
+
+/**
+ * Registry of HTTP client sessions keyed by MCP session ID.
+ * Each session owns its own MCP server, tool instances and connection pools,
+ * so clients never share a message channel or a database connection.
+ * Sessions idle for longer than the timeout are closed and their pools ended.
+ */
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private idleTimeoutMs: number,
+    private audit: AuditLog | null = null,
+    private masking: MaskingPolicy | null = null
+  ) {}
+
+  /**
+   * Create a session for a transport and connect its MCP server.
+   */
+  async open<T extends Transport>(
+    id: string,
+    transport: T,
+    policy?: AccessPolicy
+  ): Promise<Session<T>> {
+    const connections = new ConnectionRegistry(this.audit);
+    const server = createServer({
+      id,
+      connections,
+      policy,
+      audit: this.audit,
+      masking: this.masking,
+    });
+    const session: Session<T> = {
+      id,
+      connections,
+      policy,
+      audit: this.audit,
+      masking: this.masking,
+      server,
+      transport,
+      lastActivity: Date.now(),
+    };
+
+    this.sessions.set(id, session);
+    transport.onclose = () => {
+      void this.close(id);
+    };
+
+    await server.connect(transport);
+    return session;
+  }
+
+  /**
+   * Look up a session and mark it as active.
+   */
+  get(id: string): Session | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Close a session: end its connection pools and its transport.
+   */
+  async close(id: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+
+    this.sessions.delete(id);
+    console.error(`Closing session ${id}`);
+
+    try {
+      await session.connections.disconnectAll();
+    } finally {
+      await session.server.close();
+    }
+  }
+
+  /**
+   * Close every session.
+   */
+  async closeAll(): Promise<void> {
+    await Promise.allSettled(
+      [...this.sessions.keys()].map((id) => this.close(id))
+    );
+  }
+
+  /**
+   * Start periodically expiring idle sessions.
+   */
+  startExpiry(): void {
+    if (this.sweepTimer) return;
+
+    const interval = Math.min(60_000, Math.max(1_000, this.idleTimeoutMs / 2));
+    this.sweepTimer = setInterval(() => void this.expireIdle(), interval);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Stop the idle-session sweep.
+   */
+  stopExpiry(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Close sessions that have been idle longer than the timeout.
+   */
+  private async expireIdle(): Promise<void> {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    const expired = [...this.sessions.values()]
+      .filter((s) => s.lastActivity < cutoff)
+      .map((s) => s.id);
+
+    await Promise.allSettled(expired.map((id) => this.close(id)));
+  }
+}
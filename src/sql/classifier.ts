@@ -0,0 +1,393 @@
+import { wildcardToRegExp } from "../wildcard.js";
+import { SqlSyntaxError, Token, tokenize } from "./lexer.js";
+
+/**
+ * Why a statement was rejected, pointing at the offending token.
+ */
+export interface SqlViolation {
+  reason: string;
+  token: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export type Classification =
+  | { readOnly: true; statementType: string }
+  | { readOnly: false; statementType: string; violation: SqlViolation };
+
+/**
+ * A single data-modifying statement accepted by the write classifier.
+ */
+export interface WriteStatement {
+  statementType: "INSERT" | "UPDATE" | "DELETE" | "MERGE";
+  /** Target table exactly as written in the statement (possibly schema-qualified and quoted). */
+  table: string;
+  hasReturning: boolean;
+}
+
+export interface ClassifierOptions {
+  /**
+   * Functions that must not be called. Names are matched case-insensitively
+   * against the unqualified function name; `*` matches any run of characters.
+   */
+  deniedFunctions?: string[];
+}
+
+/**
+ * Thrown when a query is not provably read-only, or not an acceptable write.
+ */
+export class UnsafeQueryError extends Error {
+  constructor(
+    public readonly violation: SqlViolation,
+    hint: string = "Only SELECT and read-only queries are allowed."
+  ) {
+    super(
+      `Query rejected: ${violation.reason} ` +
+        `(token "${violation.token}" at line ${violation.line}, column ${violation.column}). ` +
+        hint
+    );
+    this.name = "UnsafeQueryError";
+  }
+}
+
+/**
+ * Functions with side effects outside the transaction (signals, file and
+ * large-object I/O, remote execution, sequences, locks, configuration),
+ * or that execute SQL given as a string.
+ */
+export const DEFAULT_DENIED_FUNCTIONS = [
+  "pg_terminate_backend",
+  "pg_cancel_backend",
+  "pg_reload_conf",
+  "pg_rotate_logfile",
+  "pg_promote",
+  "pg_switch_wal",
+  "pg_create_restore_point",
+  "pg_backup_start",
+  "pg_backup_stop",
+  "pg_start_backup",
+  "pg_stop_backup",
+  "pg_log_backend_memory_contexts",
+  "pg_read_file",
+  "pg_read_binary_file",
+  "pg_stat_file",
+  "pg_ls_*",
+  "pg_file_*",
+  "pg_create_*_replication_slot",
+  "pg_drop_replication_slot",
+  "pg_copy_*_replication_slot",
+  "pg_replication_origin_*",
+  "pg_replication_slot_advance",
+  "pg_logical_emit_message",
+  "pg_logical_slot_get_*",
+  "pg_stat_reset*",
+  "pg_stat_statements_reset",
+  "pg_import_system_collations",
+  "pg_advisory_*",
+  "pg_try_advisory_*",
+  "pg_notify",
+  "lo_*",
+  "loread",
+  "lowrite",
+  "dblink*",
+  "nextval",
+  "setval",
+  "set_config",
+  "query_to_xml*",
+  "query_to_xmlschema",
+  "cursor_to_xml*",
+];
+
+/** Statements that may start a read-only query. */
+const READ_ONLY_STATEMENTS = new Set(["select", "with", "values", "table", "show"]);
+
+/** Keywords that start a data-modifying (sub)statement. */
+const DATA_MODIFYING = new Set(["insert", "update", "delete", "merge"]);
+
+/** Words before UPDATE in a locking clause (FOR UPDATE, FOR NO KEY UPDATE). */
+const LOCKING_PREFIXES = new Set(["for", "key"]);
+
+/**
+ * Token-based classifier deciding whether a SQL string is a single
+ * read-only statement. Because it works on tokens, keywords inside string
+ * literals, dollar-quoted bodies, quoted identifiers and comments, or
+ * embedded in longer names (`updates_log`, `created_at_delete`), are never
+ * mistaken for commands.
+ */
+export class SqlClassifier {
+  private exact = new Set<string>();
+  private patterns: RegExp[] = [];
+
+  constructor(options: ClassifierOptions = {}) {
+    for (const name of options.deniedFunctions ?? DEFAULT_DENIED_FUNCTIONS) {
+      const lower = name.toLowerCase();
+      if (lower.includes("*")) {
+        this.patterns.push(wildcardToRegExp(lower));
+      } else {
+        this.exact.add(lower);
+      }
+    }
+  }
+
+  /**
+   * Build a classifier from the environment: DB_EXPLORER_DENIED_FUNCTIONS
+   * adds to the default denylist and DB_EXPLORER_ALLOWED_FUNCTIONS removes
+   * entries from it (both comma-separated).
+   */
+  static fromEnv(): SqlClassifier {
+    const list = (name: string) =>
+      (process.env[name] ?? "")
+        .split(",")
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean);
+
+    const allowed = new Set(list("DB_EXPLORER_ALLOWED_FUNCTIONS"));
+    return new SqlClassifier({
+      deniedFunctions: [
+        ...DEFAULT_DENIED_FUNCTIONS.filter((f) => !allowed.has(f)),
+        ...list("DB_EXPLORER_DENIED_FUNCTIONS"),
+      ],
+    });
+  }
+
+  /**
+   * Classify a SQL string.
+   */
+  classify(sql: string): Classification {
+    let tokens: Token[];
+    try {
+      tokens = tokenize(sql);
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        return this.reject(sql, "", error.message, syntheticToken(sql, error.offset));
+      }
+      throw error;
+    }
+
+    const statements = splitStatements(tokens);
+    if (statements.length === 0) {
+      return this.reject(sql, "", "empty query", syntheticToken(sql, 0));
+    }
+
+    const statement = statements[0];
+    const first = statement.find((t) => t.text !== "(") ?? statement[0];
+    const statementType = first.type === "identifier" ? first.value.toUpperCase() : first.text;
+
+    if (statements.length > 1) {
+      return this.reject(sql, statementType, "multiple statements are not allowed", statements[1][0]);
+    }
+
+    if (first.type !== "identifier" || !READ_ONLY_STATEMENTS.has(first.value)) {
+      return this.reject(sql, statementType, `${statementType} is not a read-only statement`, first);
+    }
+
+    let depth = 0;
+    for (let i = 0; i < statement.length; i++) {
+      const token = statement[i];
+      const prev = statement[i - 1];
+      if (token.text === "(") depth++;
+      if (token.text === ")") depth--;
+
+      if (token.type === "identifier") {
+        // A data-modifying statement opens a CTE body or, at the top level,
+        // follows the WITH list as the main statement
+        if (
+          DATA_MODIFYING.has(token.value) &&
+          (!prev || prev.text === "(" || (depth === 0 && !LOCKING_PREFIXES.has(prev.value)))
+        ) {
+          return this.reject(
+            sql,
+            statementType,
+            `data-modifying ${token.value.toUpperCase()} is not allowed`,
+            token
+          );
+        }
+        if (token.value === "into") {
+          return this.reject(sql, statementType, "SELECT ... INTO creates a table", token);
+        }
+      }
+
+    }
+
+    const denied = this.findDeniedCall(statement);
+    if (denied) {
+      return this.reject(sql, statementType, `function ${denied.value}() has side effects`, denied);
+    }
+
+    return { readOnly: true, statementType };
+  }
+
+  /**
+   * Check that the SQL is a single INSERT, UPDATE, DELETE or MERGE that calls
+   * no denied functions, and identify its target table. Throws
+   * UnsafeQueryError otherwise.
+   */
+  assertWrite(sql: string): WriteStatement {
+    const fail = (reason: string, token: Token): never => {
+      throw new UnsafeQueryError(
+        violationAt(sql, reason, token),
+        "Only a single INSERT, UPDATE, DELETE or MERGE statement is allowed."
+      );
+    };
+
+    let tokens: Token[];
+    try {
+      tokens = tokenize(sql);
+    } catch (error) {
+      if (error instanceof SqlSyntaxError) {
+        return fail(error.message, syntheticToken(sql, error.offset));
+      }
+      throw error;
+    }
+
+    const statements = splitStatements(tokens);
+    if (statements.length === 0) {
+      return fail("empty query", syntheticToken(sql, 0));
+    }
+
+    const statement = statements[0];
+    const first = statement[0];
+    const statementType = first.type === "identifier" ? first.value.toUpperCase() : first.text;
+
+    if (statements.length > 1) {
+      return fail("multiple statements are not allowed", statements[1][0]);
+    }
+    if (first.type !== "identifier" || !DATA_MODIFYING.has(first.value)) {
+      return fail(
+        `${statementType} is not an INSERT, UPDATE, DELETE or MERGE statement`,
+        first
+      );
+    }
+
+    const denied = this.findDeniedCall(statement);
+    if (denied) {
+      return fail(`function ${denied.value}() has side effects`, denied);
+    }
+
+    // Skip INTO / FROM / ONLY to reach the target table name
+    let i = 1;
+    while (
+      i < statement.length &&
+      statement[i].type === "identifier" &&
+      ["into", "from", "only"].includes(statement[i].value)
+    ) {
+      i++;
+    }
+    const nameParts: string[] = [];
+    while (
+      i < statement.length &&
+      (statement[i].type === "identifier" || statement[i].type === "quoted_identifier")
+    ) {
+      nameParts.push(statement[i].text);
+      if (statement[i + 1]?.text !== ".") break;
+      i += 2;
+    }
+    if (nameParts.length === 0) {
+      return fail("could not identify the target table", statement[i] ?? first);
+    }
+
+    return {
+      statementType: statementType as WriteStatement["statementType"],
+      table: nameParts.join("."),
+      hasReturning: statement.some(
+        (t) => t.type === "identifier" && t.value === "returning"
+      ),
+    };
+  }
+
+  /**
+   * Throw UnsafeQueryError unless the SQL is a single read-only statement.
+   */
+  assertReadOnly(sql: string): void {
+    const result = this.classify(sql);
+    if (!result.readOnly) {
+      throw new UnsafeQueryError(result.violation);
+    }
+  }
+
+  /**
+   * Find the first call to a denied function in a statement.
+   */
+  private findDeniedCall(statement: Token[]): Token | undefined {
+    return statement.find(
+      (token, i) =>
+        (token.type === "identifier" || token.type === "quoted_identifier") &&
+        statement[i + 1]?.text === "(" &&
+        this.isDenied(token.value)
+    );
+  }
+
+  private isDenied(name: string): boolean {
+    const lower = name.toLowerCase();
+    if (this.exact.has(lower)) return true;
+    return this.patterns.some((pattern) => pattern.test(lower));
+  }
+
+  private reject(
+    sql: string,
+    statementType: string,
+    reason: string,
+    token: Token
+  ): Classification {
+    return {
+      readOnly: false,
+      statementType,
+      violation: violationAt(sql, reason, token),
+    };
+  }
+}
+
+/**
+ * Split tokens into statements on top-level semicolons, dropping empty ones.
+ */
+export function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [];
+  let current: Token[] = [];
+
+  for (const token of tokens) {
+    if (token.type === "punctuation" && token.text === ";") {
+      if (current.length > 0) statements.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) statements.push(current);
+
+  return statements;
+}
+
+/**
+ * Cut the SQL off after its last token, dropping trailing semicolons and any
+ * comments around them, so a single statement can be embedded in another,
+ * e.g. DECLARE ... CURSOR FOR or a WITH clause.
+ */
+export function stripTrailingSemicolon(sql: string): string {
+  const tokens = tokenize(sql);
+  let end = tokens.length;
+  while (end > 0 && tokens[end - 1].type === "punctuation" && tokens[end - 1].text === ";") {
+    end--;
+  }
+  const last = tokens[end - 1];
+  return last ? sql.slice(0, last.offset + last.text.length) : "";
+}
+
+function violationAt(sql: string, reason: string, token: Token): SqlViolation {
+  const before = sql.slice(0, token.offset).split("\n");
+  return {
+    reason,
+    token: token.text,
+    offset: token.offset,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+/**
+ * A stand-in token for errors that don't sit on a real token.
+ */
+function syntheticToken(sql: string, offset: number): Token {
+  const text = sql.slice(offset, offset + 10);
+  return { type: "punctuation", text, value: text, offset };
+}
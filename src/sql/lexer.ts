@@ -0,0 +1,303 @@
+export type TokenType =
+  | "identifier"
+  | "quoted_identifier"
+  | "string"
+  | "number"
+  | "param"
+  | "operator"
+  | "punctuation";
+
+export interface Token {
+  type: TokenType;
+  /** Source text of the token. */
+  text: string;
+  /**
+   * Lowercased name for identifiers, unescaped name for quoted identifiers,
+   * the text itself otherwise.
+   */
+  value: string;
+  /** Offset of the token's first character in the source. */
+  offset: number;
+}
+
+/**
+ * Raised for input the lexer cannot tokenize (e.g. an unterminated string).
+ */
+export class SqlSyntaxError extends Error {
+  constructor(message: string, public readonly offset: number) {
+    super(message);
+    this.name = "SqlSyntaxError";
+  }
+}
+
+const IDENT_START = /[A-Za-z_\u0080-\uffff]/;
+const IDENT_PART = /[A-Za-z0-9_$\u0080-\uffff]/;
+const DOLLAR_TAG = /^\$(?:[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*)?\$/;
+const OPERATOR_CHARS = "+-*/<>=~!@#%^&|`?";
+const PUNCTUATION = "()[],;.:";
+
+/**
+ * Split PostgreSQL SQL into tokens. Comments and whitespace are dropped.
+ * Understands standard, escape (E''), bit/hex (B'', X''), national (N'') and
+ * Unicode (U&'') string literals, dollar quoting, quoted identifiers,
+ * positional parameters and nested block comments.
+ */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const push = (type: TokenType, start: number, value?: string) => {
+    const text = sql.slice(start, i);
+    tokens.push({ type, text, value: value ?? text, offset: start });
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    // Whitespace
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Line comment
+    if (ch === "-" && next === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+
+    // Block comment (nestable)
+    if (ch === "/" && next === "*") {
+      const start = i;
+      let depth = 0;
+      do {
+        if (sql[i] === "/" && sql[i + 1] === "*") {
+          depth++;
+          i += 2;
+        } else if (sql[i] === "*" && sql[i + 1] === "/") {
+          depth--;
+          i += 2;
+        } else {
+          i++;
+        }
+      } while (depth > 0 && i < sql.length);
+      if (depth > 0) throw new SqlSyntaxError("Unterminated block comment", start);
+      continue;
+    }
+
+    // Prefixed string literals: E'..', B'..', X'..', N'..', U&'..'
+    if (/[EeBbXxNn]/.test(ch) && next === "'") {
+      const start = i;
+      i = readQuoted(sql, i + 1, "'", /[Ee]/.test(ch)).end;
+      push("string", start);
+      continue;
+    }
+    if (/[Uu]/.test(ch) && next === "&" && (sql[i + 2] === "'" || sql[i + 2] === '"')) {
+      const start = i;
+      const quote = sql[i + 2];
+      const { end, body } = readQuoted(sql, i + 2, quote, false);
+      i = end;
+      // U& identifiers are decoded once their UESCAPE clause is known
+      push(quote === "'" ? "string" : "quoted_identifier", start, quote === '"' ? body : undefined);
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (IDENT_START.test(ch)) {
+      const start = i;
+      while (i < sql.length && IDENT_PART.test(sql[i])) i++;
+      push("identifier", start, sql.slice(start, i).toLowerCase());
+      continue;
+    }
+
+    // Quoted identifier
+    if (ch === '"') {
+      const start = i;
+      const { end, body } = readQuoted(sql, i, '"', false);
+      i = end;
+      push("quoted_identifier", start, body);
+      continue;
+    }
+
+    // Standard string literal
+    if (ch === "'") {
+      const start = i;
+      i = readQuoted(sql, i, "'", false).end;
+      push("string", start);
+      continue;
+    }
+
+    // Positional parameter or dollar-quoted string
+    if (ch === "$") {
+      const start = i;
+      if (next !== undefined && /[0-9]/.test(next)) {
+        i++;
+        while (i < sql.length && /[0-9]/.test(sql[i])) i++;
+        push("param", start);
+        continue;
+      }
+      const tag = sql.slice(i).match(DOLLAR_TAG)?.[0];
+      if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        if (close === -1) {
+          throw new SqlSyntaxError(`Unterminated dollar-quoted string ${tag}`, start);
+        }
+        i = close + tag.length;
+        push("string", start);
+        continue;
+      }
+    }
+
+    // Numbers
+    if (/[0-9]/.test(ch) || (ch === "." && next !== undefined && /[0-9]/.test(next))) {
+      const start = i;
+      const match = sql
+        .slice(i)
+        .match(/^(?:0[xX][0-9A-Fa-f_]+|0[oO][0-7_]+|0[bB][01_]+|(?:[0-9][0-9_]*)?\.?[0-9_]*(?:[eE][+-]?[0-9]+)?)/);
+      i += Math.max(1, match?.[0].length ?? 1);
+      push("number", start);
+      continue;
+    }
+
+    // Type cast
+    if (ch === ":" && next === ":") {
+      const start = i;
+      i += 2;
+      push("operator", start);
+      continue;
+    }
+
+    if (PUNCTUATION.includes(ch)) {
+      const start = i;
+      i++;
+      push("punctuation", start);
+      continue;
+    }
+
+    if (OPERATOR_CHARS.includes(ch)) {
+      const start = i;
+      while (
+        i < sql.length &&
+        OPERATOR_CHARS.includes(sql[i]) &&
+        !(sql[i] === "-" && sql[i + 1] === "-") &&
+        !(sql[i] === "/" && sql[i + 1] === "*")
+      ) {
+        i++;
+      }
+      push("operator", start);
+      continue;
+    }
+
+    throw new SqlSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  return decodeUnicodeIdentifiers(sql, tokens);
+}
+
+/**
+ * Decode U&"..." identifiers, so U&"pg\005fread_file" is seen as
+ * pg_read_file. A following UESCAPE 'c' clause (comments may come between)
+ * sets the escape character and is merged into the identifier's token.
+ */
+function decodeUnicodeIdentifiers(sql: string, tokens: Token[]): Token[] {
+  const result: Token[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "quoted_identifier" || !/^u&/i.test(token.text)) {
+      result.push(token);
+      continue;
+    }
+
+    let escape = "\\";
+    let end = token.offset + token.text.length;
+    if (tokens[i + 1]?.type === "identifier" && tokens[i + 1].value === "uescape") {
+      const literal = tokens[i + 2];
+      const char = literal?.type === "string" ? literal.text.match(/^'([^'])'$/)?.[1] : undefined;
+      if (char === undefined) {
+        throw new SqlSyntaxError("UESCAPE must be followed by a one-character string", tokens[i + 1].offset);
+      }
+      escape = char;
+      end = literal.offset + literal.text.length;
+      i += 2;
+    }
+
+    result.push({
+      ...token,
+      text: sql.slice(token.offset, end),
+      value: decodeUnicodeEscapes(token.value, escape, token.offset),
+    });
+  }
+  return result;
+}
+
+/**
+ * Decode the escapes of a U& literal: the escape character followed by four
+ * hex digits, or by `+` and six, is a code point; doubled, it stands for
+ * itself.
+ */
+function decodeUnicodeEscapes(body: string, escape: string, offset: number): string {
+  if (/[0-9a-f+'"\s]/i.test(escape)) {
+    throw new SqlSyntaxError(`Invalid Unicode escape character "${escape}"`, offset);
+  }
+
+  let decoded = "";
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] !== escape) {
+      decoded += body[i];
+      continue;
+    }
+    if (body[i + 1] === escape) {
+      decoded += escape;
+      i++;
+      continue;
+    }
+    const hex = body.slice(i + 1).match(/^(?:[0-9a-f]{4}|\+[0-9a-f]{6})/i)?.[0];
+    const codePoint = hex ? parseInt(hex.replace("+", ""), 16) : NaN;
+    if (!hex || codePoint > 0x10ffff) {
+      throw new SqlSyntaxError("Invalid Unicode escape in U& identifier", offset);
+    }
+    decoded += String.fromCodePoint(codePoint);
+    i += hex.length;
+  }
+  return decoded;
+}
+
+/**
+ * Read a quoted run starting at `start` (which must be the opening quote).
+ * A doubled quote is an escaped quote; with `backslashEscapes`, so is `\'`.
+ * Returns the offset just past the closing quote and the unescaped body.
+ */
+function readQuoted(
+  sql: string,
+  start: number,
+  quote: string,
+  backslashEscapes: boolean
+): { end: number; body: string } {
+  let i = start + 1;
+  let body = "";
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\" && i + 1 < sql.length) {
+      body += sql[i + 1];
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      if (sql[i + 1] === quote) {
+        body += quote;
+        i += 2;
+        continue;
+      }
+      return { end: i + 1, body };
+    }
+    body += ch;
+    i++;
+  }
+
+  throw new SqlSyntaxError(
+    quote === '"' ? "Unterminated quoted identifier" : "Unterminated string literal",
+    start
+  );
+}
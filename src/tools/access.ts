@@ -0,0 +1,416 @@
+import { DatabaseManager, TransactionClient } from "../database.js";
+
+export const TABLE_PRIVILEGES = [
+  "SELECT",
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "TRUNCATE",
+  "REFERENCES",
+  "TRIGGER",
+] as const;
+
+export type TablePrivilege = (typeof TABLE_PRIVILEGES)[number];
+
+/** Privileges that can also be granted on single columns. */
+const COLUMN_PRIVILEGES: TablePrivilege[] = ["SELECT", "INSERT", "UPDATE", "REFERENCES"];
+
+/** Commands row-level security policies apply to. */
+const RLS_COMMANDS: TablePrivilege[] = ["SELECT", "INSERT", "UPDATE", "DELETE"];
+
+export interface RoleInfo {
+  role_name: string;
+  superuser: boolean;
+  can_login: boolean;
+  inherit: boolean;
+  create_role: boolean;
+  create_db: boolean;
+  replication: boolean;
+  bypass_rls: boolean;
+  /** Null when unlimited. */
+  connection_limit: number | null;
+  valid_until: string | null;
+  member_of: { role: string; admin_option: boolean }[];
+}
+
+export interface TablePrivileges {
+  role: string;
+  table: string;
+  schemaUsage: boolean;
+  privileges: Record<TablePrivilege, boolean>;
+  /** Columns with privileges the role does not hold on the whole table. */
+  columns: { column: string; privileges: TablePrivilege[] }[];
+}
+
+export interface PolicyInfo {
+  policy_name: string;
+  permissive: "PERMISSIVE" | "RESTRICTIVE";
+  roles: string[];
+  command: string;
+  using: string | null;
+  with_check: string | null;
+}
+
+export interface RowSecurity {
+  table: string;
+  rlsEnabled: boolean;
+  /** Whether policies also apply to the table owner. */
+  rlsForced: boolean;
+  policies: PolicyInfo[];
+}
+
+/**
+ * Whether a role may run a command on a table, and why. `rowFilter` says how
+ * row-level security limits the rows it sees or writes once allowed.
+ */
+export interface AccessCheck {
+  role: string;
+  action: TablePrivilege;
+  object: string;
+  allowed: boolean;
+  rowFilter: "none" | "bypassed" | "policies" | "all rows";
+  reasons: string[];
+}
+
+/**
+ * Tools for roles, privileges and row-level security.
+ */
+export class AccessTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * List roles with their attributes and the roles they are members of.
+   * Predefined pg_* roles are left out unless `includeSystem` is set.
+   */
+  async listRoles(includeSystem: boolean = false): Promise<RoleInfo[]> {
+    const result = await this.db.queryReadOnly<RoleInfo>(
+      `SELECT r.rolname AS role_name,
+        r.rolsuper AS superuser,
+        r.rolcanlogin AS can_login,
+        r.rolinherit AS inherit,
+        r.rolcreaterole AS create_role,
+        r.rolcreatedb AS create_db,
+        r.rolreplication AS replication,
+        r.rolbypassrls AS bypass_rls,
+        NULLIF(r.rolconnlimit, -1) AS connection_limit,
+        r.rolvaliduntil::text AS valid_until,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'role', g.rolname,
+            'admin_option', m.admin_option
+          ) ORDER BY g.rolname)
+          FROM pg_auth_members m
+          JOIN pg_roles g ON g.oid = m.roleid
+          WHERE m.member = r.oid
+        ), '[]') AS member_of
+       FROM pg_roles r
+       WHERE $1 OR r.rolname !~ '^pg_'
+       ORDER BY r.rolname`,
+      [includeSystem]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Effective privileges of a role on a table, counting grants to PUBLIC and
+   * to roles it inherits from, and the columns it holds extra privileges on.
+   */
+  async tablePrivileges(
+    role: string,
+    table: string,
+    schema: string = "public"
+  ): Promise<TablePrivileges> {
+    return this.db.transaction(
+      async (client) => {
+        await requireRole(client, role);
+        const relation = await findRelation(client, role, table, schema);
+
+        const privileges = await client.query<{ privilege: TablePrivilege; granted: boolean }>(
+          `SELECT p AS privilege, has_table_privilege($1, $2::oid, p) AS granted
+           FROM unnest($3::text[]) p`,
+          [role, relation.oid, TABLE_PRIVILEGES]
+        );
+        const tableLevel = Object.fromEntries(
+          privileges.rows.map((p) => [p.privilege, p.granted])
+        ) as Record<TablePrivilege, boolean>;
+
+        const missing = COLUMN_PRIVILEGES.filter((p) => !tableLevel[p]);
+        const columns = await client.query<{ column: string; privileges: TablePrivilege[] }>(
+          `SELECT a.attname::text AS column,
+            array_agg(p ORDER BY array_position($3::text[], p)) AS privileges
+           FROM pg_attribute a
+           CROSS JOIN unnest($3::text[]) p
+           WHERE a.attrelid = $2 AND a.attnum > 0 AND NOT a.attisdropped
+             AND has_column_privilege($1, a.attrelid, a.attnum, p)
+           GROUP BY a.attnum, a.attname
+           ORDER BY a.attnum`,
+          [role, relation.oid, missing]
+        );
+
+        return {
+          role,
+          table: `${schema}.${table}`,
+          schemaUsage: relation.schema_usage,
+          privileges: tableLevel,
+          columns: columns.rows,
+        };
+      },
+      { readOnly: true }
+    );
+  }
+
+  /**
+   * Row-level security status of a table and its policies. Returns null
+   * when the table does not exist.
+   */
+  async rowSecurity(table: string, schema: string = "public"): Promise<RowSecurity | null> {
+    return this.db.transaction(
+      async (client) => {
+        const status = await client.query<{ enabled: boolean; forced: boolean }>(
+          `SELECT c.relrowsecurity AS enabled, c.relforcerowsecurity AS forced
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE n.nspname = $1 AND c.relname = $2`,
+          [schema, table]
+        );
+        if (status.rows.length === 0) return null;
+
+        const policies = await client.query<PolicyInfo>(
+          `SELECT policyname AS policy_name, permissive, roles::text[] AS roles,
+            cmd AS command, qual AS using, with_check
+           FROM pg_policies
+           WHERE schemaname = $1 AND tablename = $2
+           ORDER BY policyname`,
+          [schema, table]
+        );
+        return {
+          table: `${schema}.${table}`,
+          rlsEnabled: status.rows[0].enabled,
+          rlsForced: status.rows[0].forced,
+          policies: policies.rows,
+        };
+      },
+      { readOnly: true }
+    );
+  }
+
+  /**
+   * Explain whether a role can run `action` on a table, or on one column of
+   * it: superuser status, schema USAGE, the grants that supply the privilege
+   * (or why none do), and what row-level security leaves visible.
+   */
+  async checkAccess(
+    role: string,
+    action: TablePrivilege,
+    table: string,
+    schema: string = "public",
+    column?: string
+  ): Promise<AccessCheck> {
+    if (column !== undefined && !COLUMN_PRIVILEGES.includes(action)) {
+      throw new Error(
+        `${action} cannot be granted on columns; only ${COLUMN_PRIVILEGES.join(", ")} can.`
+      );
+    }
+
+    return this.db.transaction(
+      async (client) => {
+        const roleInfo = await requireRole(client, role);
+        const relation = await findRelation(client, role, table, schema);
+        const object = `${schema}.${table}` + (column !== undefined ? `.${column}` : "");
+        const check: AccessCheck = {
+          role,
+          action,
+          object,
+          allowed: false,
+          rowFilter: "none",
+          reasons: [],
+        };
+
+        if (roleInfo.superuser) {
+          check.allowed = true;
+          check.rowFilter = relation.rls_enabled ? "bypassed" : "none";
+          check.reasons.push(`${role} is a superuser; privileges and row-level security are not checked.`);
+          return check;
+        }
+
+        if (!relation.schema_usage) {
+          check.reasons.push(`${role} lacks USAGE on schema ${schema}, so it cannot reach any object in it.`);
+        }
+
+        const granted = await client.query<{ table_level: boolean; column_level: boolean | null }>(
+          `SELECT has_table_privilege($1, $2::oid, $3) AS table_level,
+            CASE WHEN $4::text IS NOT NULL THEN has_column_privilege($1, $2::oid, $4::text, $3) END AS column_level`,
+          [role, relation.oid, action, column ?? null]
+        );
+        const { table_level, column_level } = granted.rows[0];
+
+        // Every ACL entry for the action, and how the role relates to its grantee
+        const grants = await client.query<{
+          column: string | null;
+          grantee: string;
+          grantor: string;
+          via: "public" | "direct" | "inherited" | "noinherit" | null;
+        }>(
+          `SELECT e.column,
+            CASE WHEN e.grantee = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(e.grantee) END AS grantee,
+            pg_get_userbyid(e.grantor) AS grantor,
+            CASE WHEN e.grantee = 0 THEN 'public'
+                 WHEN e.grantee = r.oid THEN 'direct'
+                 WHEN pg_has_role(r.oid, e.grantee, 'USAGE') THEN 'inherited'
+                 WHEN pg_has_role(r.oid, e.grantee, 'MEMBER') THEN 'noinherit' END AS via
+           FROM pg_roles r,
+           LATERAL (
+             SELECT NULL::text AS column, a.grantee, a.grantor, a.privilege_type
+             FROM pg_class c, aclexplode(COALESCE(c.relacl, acldefault('r', c.relowner))) a
+             WHERE c.oid = $2
+             UNION ALL
+             SELECT att.attname::text, a.grantee, a.grantor, a.privilege_type
+             FROM pg_attribute att, aclexplode(att.attacl) a
+             WHERE att.attrelid = $2 AND att.attnum > 0 AND NOT att.attisdropped
+           ) e
+           WHERE r.rolname = $1 AND e.privilege_type = $3
+           ORDER BY e.column NULLS FIRST, e.grantee`,
+          [role, relation.oid, action]
+        );
+        const reaching = grants.rows.filter(
+          (g) => g.via && g.via !== "noinherit" && (g.column === null || g.column === column)
+        );
+
+        if (relation.is_owner) {
+          check.reasons.push(
+            relation.owner === role
+              ? `${role} owns ${schema}.${table}.`
+              : `${role} has the privileges of ${relation.owner}, which owns ${schema}.${table}.`
+          );
+        }
+        for (const g of reaching) {
+          const on = g.column === null ? `${action} on ${schema}.${table}` : `${action} (${g.column})`;
+          check.reasons.push(
+            g.via === "public"
+              ? `${on} is granted to PUBLIC by ${g.grantor}.`
+              : g.via === "direct"
+                ? `${on} is granted to ${role} by ${g.grantor}.`
+                : `${on} is granted to ${g.grantee} by ${g.grantor}, and ${role} inherits from ${g.grantee}.`
+          );
+        }
+
+        if (table_level || column_level) {
+          if (reaching.length === 0 && !relation.is_owner) {
+            check.reasons.push(
+              `${action} is not in the table's ACL for ${role}; it comes from a predefined role such as pg_read_all_data or pg_write_all_data.`
+            );
+          }
+        } else {
+          for (const g of grants.rows.filter((g) => g.via === "noinherit")) {
+            check.reasons.push(
+              `${g.grantee} has ${action}${g.column ? ` (${g.column})` : ""}, but ${role} is a member without INHERIT and must SET ROLE ${g.grantee} first.`
+            );
+          }
+          const columnGrants = [
+            ...new Set(
+              grants.rows.filter((g) => g.column && g.via && g.via !== "noinherit").map((g) => g.column!)
+            ),
+          ];
+          if (column === undefined && columnGrants.length > 0) {
+            check.reasons.push(
+              `${role} has ${action} only on ${columnGrants.length === 1 ? "column" : "columns"} ${columnGrants.join(", ")}; a statement must name only those columns.`
+            );
+          } else {
+            check.reasons.push(
+              `No grant of ${action} on ${object} reaches ${role} directly, through PUBLIC or through a role it inherits from.`
+            );
+          }
+        }
+
+        check.allowed = relation.schema_usage && Boolean(table_level || column_level);
+        if (!check.allowed || !RLS_COMMANDS.includes(action) || !relation.rls_enabled) {
+          return check;
+        }
+
+        if (roleInfo.bypass_rls) {
+          check.rowFilter = "bypassed";
+          check.reasons.push(`${role} has BYPASSRLS, so row-level security does not apply.`);
+        } else if (relation.is_owner && !relation.rls_forced) {
+          check.rowFilter = "bypassed";
+          check.reasons.push(
+            "Row-level security is enabled but not forced, so it does not apply to the table owner."
+          );
+        } else {
+          const policies = await client.query<{ name: string; permissive: boolean; qual: string | null }>(
+            `SELECT p.polname AS name, p.polpermissive AS permissive,
+              pg_get_expr(COALESCE(CASE WHEN $3 = 'INSERT' THEN p.polwithcheck END, p.polqual, p.polwithcheck), p.polrelid) AS qual
+             FROM pg_policy p
+             JOIN pg_roles r ON r.rolname = $1
+             WHERE p.polrelid = $2
+               AND p.polcmd IN ('*', CASE $3 WHEN 'SELECT' THEN 'r' WHEN 'INSERT' THEN 'a'
+                                             WHEN 'UPDATE' THEN 'w' WHEN 'DELETE' THEN 'd' END)
+               AND EXISTS (SELECT 1 FROM unnest(p.polroles) pr
+                           WHERE pr = 0 OR pg_has_role(r.oid, pr, 'MEMBER'))
+             ORDER BY p.polname`,
+            [role, relation.oid, action]
+          );
+          const permissive = policies.rows.filter((p) => p.permissive);
+          const restrictive = policies.rows.filter((p) => !p.permissive);
+          if (permissive.length === 0) {
+            check.rowFilter = "all rows";
+            check.reasons.push(
+              `Row-level security is enabled and no permissive ${action} policy applies to ${role}, so every row is ${action === "INSERT" ? "rejected" : "filtered out"}.`
+            );
+          } else {
+            check.rowFilter = "policies";
+            const describe = (p: { name: string; qual: string | null }) =>
+              `${p.name} (${p.qual ?? "true"})`;
+            check.reasons.push(
+              `Row-level security limits rows to those passing any of: ${permissive.map(describe).join(", ")}` +
+                (restrictive.length > 0 ? `; and all of: ${restrictive.map(describe).join(", ")}.` : ".")
+            );
+          }
+        }
+        return check;
+      },
+      { readOnly: true }
+    );
+  }
+}
+
+interface Relation {
+  oid: number;
+  owner: string;
+  /** Whether the role has the owner's privileges, as owner or by inheritance. */
+  is_owner: boolean;
+  schema_usage: boolean;
+  rls_enabled: boolean;
+  rls_forced: boolean;
+}
+
+async function requireRole(
+  client: TransactionClient,
+  role: string
+): Promise<{ superuser: boolean; bypass_rls: boolean }> {
+  const result = await client.query<{ superuser: boolean; bypass_rls: boolean }>(
+    `SELECT rolsuper AS superuser, rolbypassrls AS bypass_rls FROM pg_roles WHERE rolname = $1`,
+    [role]
+  );
+  if (result.rows.length === 0) throw new Error(`Role "${role}" does not exist.`);
+  return result.rows[0];
+}
+
+async function findRelation(
+  client: TransactionClient,
+  role: string,
+  table: string,
+  schema: string
+): Promise<Relation> {
+  const result = await client.query<Relation>(
+    `SELECT c.oid, pg_get_userbyid(c.relowner) AS owner,
+      pg_has_role($1, c.relowner, 'USAGE') AS is_owner,
+      has_schema_privilege($1, n.oid, 'USAGE') AS schema_usage,
+      c.relrowsecurity AS rls_enabled, c.relforcerowsecurity AS rls_forced
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     WHERE n.nspname = $2 AND c.relname = $3 AND c.relkind IN ('r', 'p', 'v', 'm', 'f')`,
+    [role, schema, table]
+  );
+  if (result.rows.length === 0) throw new Error(`Table "${schema}.${table}" not found.`);
+  return result.rows[0];
+}
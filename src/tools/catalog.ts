@@ -0,0 +1,148 @@
+import { DatabaseManager } from "../database.js";
+
+export interface EnumType {
+  schema: string;
+  name: string;
+  /** Labels in sort order. */
+  labels: string[];
+}
+
+export interface DomainType {
+  schema: string;
+  name: string;
+  base_type: string;
+  nullable: boolean;
+  default: string | null;
+  collation: string | null;
+  checks: { name: string; definition: string; validated: boolean }[];
+}
+
+export interface CompositeType {
+  schema: string;
+  name: string;
+  fields: { name: string; type: string }[];
+}
+
+export interface ExtensionInfo {
+  name: string;
+  /** Null when the extension is available but not installed. */
+  installed_version: string | null;
+  default_version: string | null;
+  schema: string | null;
+  update_available: boolean;
+  comment: string | null;
+}
+
+/**
+ * Excludes types that belong to an extension; they come and go with it.
+ */
+const NOT_EXTENSION_MEMBER = `NOT EXISTS (
+  SELECT 1 FROM pg_depend d
+  WHERE d.classid = 'pg_type'::regclass AND d.objid = t.oid AND d.deptype = 'e'
+)`;
+
+/**
+ * Tools for user-defined types and extensions.
+ */
+export class CatalogTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * List the enum types in a schema with their labels.
+   */
+  async listEnums(schema: string = "public"): Promise<EnumType[]> {
+    const result = await this.db.queryReadOnly<EnumType>(
+      `SELECT n.nspname AS schema, t.typname AS name,
+        array_agg(e.enumlabel::text ORDER BY e.enumsortorder) AS labels
+       FROM pg_type t
+       JOIN pg_namespace n ON n.oid = t.typnamespace
+       JOIN pg_enum e ON e.enumtypid = t.oid
+       WHERE n.nspname = $1 AND ${NOT_EXTENSION_MEMBER}
+       GROUP BY n.nspname, t.typname
+       ORDER BY t.typname`,
+      [schema]
+    );
+    return result.rows;
+  }
+
+  /**
+   * List the domains in a schema with their base type, NOT NULL, default,
+   * collation and CHECK constraints.
+   */
+  async listDomains(schema: string = "public"): Promise<DomainType[]> {
+    const result = await this.db.queryReadOnly<DomainType>(
+      `SELECT n.nspname AS schema, t.typname AS name,
+        format_type(t.typbasetype, t.typtypmod) AS base_type,
+        NOT t.typnotnull AS nullable,
+        t.typdefault AS default,
+        CASE WHEN t.typcollation <> 0 AND t.typcollation <> b.typcollation
+          THEN t.typcollation::regcollation::text END AS collation,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'name', k.conname,
+            'definition', pg_get_constraintdef(k.oid),
+            'validated', k.convalidated
+          ) ORDER BY k.conname)
+          FROM pg_constraint k
+          WHERE k.contypid = t.oid AND k.contype = 'c'
+        ), '[]') AS checks
+       FROM pg_type t
+       JOIN pg_namespace n ON n.oid = t.typnamespace
+       JOIN pg_type b ON b.oid = t.typbasetype
+       WHERE t.typtype = 'd' AND n.nspname = $1 AND ${NOT_EXTENSION_MEMBER}
+       ORDER BY t.typname`,
+      [schema]
+    );
+    return result.rows;
+  }
+
+  /**
+   * List the composite types in a schema with their fields. Row types of
+   * tables and views are not included.
+   */
+  async listCompositeTypes(schema: string = "public"): Promise<CompositeType[]> {
+    const result = await this.db.queryReadOnly<CompositeType>(
+      `SELECT n.nspname AS schema, t.typname AS name,
+        json_agg(json_build_object(
+          'name', a.attname,
+          'type', format_type(a.atttypid, a.atttypmod)
+        ) ORDER BY a.attnum) AS fields
+       FROM pg_type t
+       JOIN pg_namespace n ON n.oid = t.typnamespace
+       JOIN pg_class c ON c.oid = t.typrelid AND c.relkind = 'c'
+       JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+       WHERE n.nspname = $1 AND ${NOT_EXTENSION_MEMBER}
+       GROUP BY n.nspname, t.typname
+       ORDER BY t.typname`,
+      [schema]
+    );
+    return result.rows;
+  }
+
+  /**
+   * List extensions, installed ones first. Without `installedOnly`, the
+   * extensions the server could install are listed too.
+   */
+  async listExtensions(installedOnly: boolean = false): Promise<ExtensionInfo[]> {
+    const result = await this.db.queryReadOnly<ExtensionInfo>(
+      `SELECT * FROM (
+         SELECT x.extname AS name,
+           x.extversion AS installed_version,
+           a.default_version,
+           n.nspname AS schema,
+           COALESCE(x.extversion <> a.default_version, false) AS update_available,
+           COALESCE(a.comment, obj_description(x.oid, 'pg_extension')) AS comment
+         FROM pg_extension x
+         JOIN pg_namespace n ON n.oid = x.extnamespace
+         LEFT JOIN pg_available_extensions a ON a.name = x.extname
+         UNION ALL
+         SELECT a.name, NULL, a.default_version, NULL, false, a.comment
+         FROM pg_available_extensions a
+         WHERE NOT $1 AND a.installed_version IS NULL
+       ) e
+       ORDER BY installed_version IS NULL, name`,
+      [installedOnly]
+    );
+    return result.rows;
+  }
+}
@@ -0,0 +1,413 @@
+import { DatabaseManager, TransactionClient } from "../database.js";
+
+interface TableRow {
+  oid: number;
+  name: string;
+  relkind: string;
+  unlogged: boolean;
+  parents: string[] | null;
+  partition_bound: string | null;
+  partition_key: string | null;
+  reloptions: string[] | null;
+  tablespace: string | null;
+  owner: string;
+  comment: string | null;
+}
+
+interface ColumnRow {
+  relid: number;
+  name: string;
+  type: string;
+  not_null: boolean;
+  identity: string;
+  generated: string;
+  default: string | null;
+  collation: string | null;
+  local: boolean;
+  comment: string | null;
+}
+
+interface ConstraintRow {
+  relid: number;
+  name: string;
+  contype: string;
+  definition: string;
+  comment: string | null;
+}
+
+interface IndexRow {
+  relid: number;
+  name: string;
+  definition: string;
+  comment: string | null;
+}
+
+interface SequenceRow {
+  relid: number;
+  name: string;
+  column: string;
+  type: string;
+  start: string;
+  increment: string;
+  min: string;
+  max: string;
+  cache: string;
+  cycle: boolean;
+  owner: string;
+}
+
+interface GrantRow {
+  relid: number;
+  column: string | null;
+  grantee: string;
+  privilege: string;
+  grantable: boolean;
+}
+
+/** Catalog rows for a set of tables, grouped by table OID. */
+interface Catalog {
+  tables: TableRow[];
+  columns: Map<number, ColumnRow[]>;
+  constraints: Map<number, ConstraintRow[]>;
+  indexes: Map<number, IndexRow[]>;
+  sequences: Map<number, SequenceRow[]>;
+  grants: Map<number, GrantRow[]>;
+}
+
+/**
+ * Tools for reconstructing table DDL from the system catalogs, in the
+ * layout pg_dump uses.
+ */
+export class DdlTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Rebuild the DDL of one table: owned sequences, CREATE TABLE, constraints,
+   * indexes, comments, owner and grants. Returns null if there is no such table.
+   */
+  async getTableDdl(table: string, schema: string = "public"): Promise<string | null> {
+    return this.db.transaction(
+      async (client) => {
+        const catalog = await this.loadCatalog(client, schema, table);
+        return catalog.tables.length > 0 ? renderDdl(catalog) : null;
+      },
+      { readOnly: true }
+    );
+  }
+
+  /**
+   * Rebuild the DDL of every table in a schema. Partitions follow their
+   * parents and foreign keys come last, so the script can be run as is.
+   */
+  async getSchemaDdl(schema: string = "public"): Promise<string | null> {
+    return this.db.transaction(
+      async (client) => {
+        const catalog = await this.loadCatalog(client, schema);
+        return catalog.tables.length > 0 ? renderDdl(catalog) : null;
+      },
+      { readOnly: true }
+    );
+  }
+
+  private async loadCatalog(
+    client: TransactionClient,
+    schema: string,
+    table?: string
+  ): Promise<Catalog> {
+    const tables = await client.query<TableRow>(
+      `SELECT c.oid,
+        quote_ident(n.nspname) || '.' || quote_ident(c.relname) AS name,
+        c.relkind,
+        c.relpersistence = 'u' AS unlogged,
+        (SELECT array_agg(quote_ident(pn.nspname) || '.' || quote_ident(p.relname) ORDER BY i.inhseqno)
+         FROM pg_inherits i
+         JOIN pg_class p ON p.oid = i.inhparent
+         JOIN pg_namespace pn ON pn.oid = p.relnamespace
+         WHERE i.inhrelid = c.oid) AS parents,
+        CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END AS partition_bound,
+        CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+        c.reloptions,
+        quote_ident(ts.spcname) AS tablespace,
+        quote_ident(pg_get_userbyid(c.relowner)) AS owner,
+        quote_literal(obj_description(c.oid, 'pg_class')) AS comment
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       LEFT JOIN pg_tablespace ts ON ts.oid = c.reltablespace
+       WHERE n.nspname = $1 AND ($2::text IS NULL OR c.relname = $2)
+         AND c.relkind IN ('r', 'p')
+       ORDER BY c.relname`,
+      [schema, table ?? null]
+    );
+    const relids = tables.rows.map((t) => t.oid);
+
+    const columns = await client.query<ColumnRow>(
+      `SELECT a.attrelid AS relid,
+        quote_ident(a.attname) AS name,
+        format_type(a.atttypid, a.atttypmod) AS type,
+        a.attnotnull AS not_null,
+        a.attidentity AS identity,
+        a.attgenerated AS generated,
+        pg_get_expr(d.adbin, d.adrelid) AS default,
+        CASE WHEN a.attcollation <> t.typcollation
+          THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname) END AS collation,
+        a.attislocal AS local,
+        quote_literal(col_description(a.attrelid, a.attnum)) AS comment
+       FROM pg_attribute a
+       JOIN pg_type t ON t.oid = a.atttypid
+       LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+       LEFT JOIN pg_collation co ON co.oid = a.attcollation
+       LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+       WHERE a.attrelid = ANY($1) AND a.attnum > 0 AND NOT a.attisdropped
+       ORDER BY a.attrelid, a.attnum`,
+      [relids]
+    );
+
+    // Constraints and indexes cloned from a parent table come with the parent
+    const constraints = await client.query<ConstraintRow>(
+      `SELECT k.conrelid AS relid,
+        quote_ident(k.conname) AS name,
+        k.contype,
+        pg_get_constraintdef(k.oid) AS definition,
+        quote_literal(obj_description(k.oid, 'pg_constraint')) AS comment
+       FROM pg_constraint k
+       WHERE k.conrelid = ANY($1) AND k.contype <> 'n'
+         AND k.conislocal AND k.conparentid = 0
+       ORDER BY k.conrelid, k.contype, k.conname`,
+      [relids]
+    );
+
+    const indexes = await client.query<IndexRow>(
+      `SELECT i.indrelid AS relid,
+        quote_ident(n.nspname) || '.' || quote_ident(ic.relname) AS name,
+        pg_get_indexdef(i.indexrelid) AS definition,
+        quote_literal(obj_description(i.indexrelid, 'pg_class')) AS comment
+       FROM pg_index i
+       JOIN pg_class ic ON ic.oid = i.indexrelid
+       JOIN pg_namespace n ON n.oid = ic.relnamespace
+       WHERE i.indrelid = ANY($1)
+         AND NOT EXISTS (SELECT 1 FROM pg_constraint k WHERE k.conindid = i.indexrelid AND k.conrelid = i.indrelid)
+         AND NOT EXISTS (SELECT 1 FROM pg_inherits h WHERE h.inhrelid = i.indexrelid)
+       ORDER BY i.indrelid, ic.relname`,
+      [relids]
+    );
+
+    // Sequences created by serial columns (identity sequences are implied by the column)
+    const sequences = await client.query<SequenceRow>(
+      `SELECT d.refobjid AS relid,
+        quote_ident(n.nspname) || '.' || quote_ident(s.relname) AS name,
+        quote_ident(a.attname) AS column,
+        format_type(q.seqtypid, NULL) AS type,
+        q.seqstart AS start, q.seqincrement AS increment,
+        q.seqmin AS min, q.seqmax AS max, q.seqcache AS cache, q.seqcycle AS cycle,
+        quote_ident(pg_get_userbyid(s.relowner)) AS owner
+       FROM pg_depend d
+       JOIN pg_class s ON s.oid = d.objid AND s.relkind = 'S'
+       JOIN pg_sequence q ON q.seqrelid = s.oid
+       JOIN pg_namespace n ON n.oid = s.relnamespace
+       JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+       WHERE d.classid = 'pg_class'::regclass AND d.refclassid = 'pg_class'::regclass
+         AND d.deptype = 'a' AND d.refobjid = ANY($1)
+       ORDER BY s.relname`,
+      [relids]
+    );
+
+    // The owner's own privileges are implied, as in pg_dump
+    const grants = await client.query<GrantRow>(
+      `SELECT g.relid, g.column,
+        CASE WHEN g.grantee = 0 THEN 'PUBLIC' ELSE quote_ident(pg_get_userbyid(g.grantee)) END AS grantee,
+        g.privilege_type AS privilege,
+        g.is_grantable AS grantable
+       FROM (
+         SELECT c.oid AS relid, NULL::text AS column, c.relowner, x.*
+         FROM pg_class c, aclexplode(c.relacl) x
+         WHERE c.oid = ANY($1)
+         UNION ALL
+         SELECT c.oid, quote_ident(a.attname), c.relowner, x.*
+         FROM pg_class c
+         JOIN pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped,
+         aclexplode(a.attacl) x
+         WHERE c.oid = ANY($1)
+       ) g
+       WHERE g.grantee <> g.relowner`,
+      [relids]
+    );
+
+    return {
+      tables: parentsFirst(tables.rows),
+      columns: groupByRelation(columns.rows),
+      constraints: groupByRelation(constraints.rows),
+      indexes: groupByRelation(indexes.rows),
+      sequences: groupByRelation(sequences.rows),
+      grants: groupByRelation(grants.rows),
+    };
+  }
+}
+
+/**
+ * Render the DDL script for the tables of a catalog.
+ */
+function renderDdl(catalog: Catalog): string {
+  const statements: string[] = [];
+  const foreignKeys: string[] = [];
+
+  for (const table of catalog.tables) {
+    const sequences = catalog.sequences.get(table.oid) ?? [];
+    const constraints = catalog.constraints.get(table.oid) ?? [];
+    const columns = catalog.columns.get(table.oid) ?? [];
+    const only = table.relkind === "p" ? "" : " ONLY";
+
+    for (const seq of sequences) {
+      statements.push(
+        `CREATE SEQUENCE ${seq.name}\n` +
+          `    AS ${seq.type}\n` +
+          `    START WITH ${seq.start}\n` +
+          `    INCREMENT BY ${seq.increment}\n` +
+          `    MINVALUE ${seq.min}\n` +
+          `    MAXVALUE ${seq.max}\n` +
+          `    CACHE ${seq.cache}${seq.cycle ? "\n    CYCLE" : ""};`
+      );
+    }
+
+    statements.push(createTable(table, columns, constraints));
+
+    for (const seq of sequences) {
+      statements.push(`ALTER SEQUENCE ${seq.name} OWNED BY ${table.name}.${seq.column};`);
+    }
+
+    // CHECK constraints of ordinary tables are written inside CREATE TABLE
+    for (const con of constraints) {
+      if (con.contype === "c" && !table.partition_bound) continue;
+      const statement = `ALTER TABLE${only} ${table.name}\n    ADD CONSTRAINT ${con.name} ${con.definition};`;
+      (con.contype === "f" ? foreignKeys : statements).push(statement);
+    }
+
+    for (const index of catalog.indexes.get(table.oid) ?? []) {
+      // Let indexes on partitioned tables cascade to the partitions
+      statements.push(`${index.definition.replace(" ON ONLY ", " ON ")};`);
+    }
+
+    const comments = [
+      table.comment && `COMMENT ON TABLE ${table.name} IS ${table.comment};`,
+      ...columns.map(
+        (col) => col.comment && `COMMENT ON COLUMN ${table.name}.${col.name} IS ${col.comment};`
+      ),
+      ...constraints.map(
+        (con) => con.comment && `COMMENT ON CONSTRAINT ${con.name} ON ${table.name} IS ${con.comment};`
+      ),
+      ...(catalog.indexes.get(table.oid) ?? []).map(
+        (index) => index.comment && `COMMENT ON INDEX ${index.name} IS ${index.comment};`
+      ),
+    ].filter((c): c is string => Boolean(c));
+    if (comments.length > 0) statements.push(comments.join("\n"));
+
+    statements.push(
+      [
+        `ALTER TABLE ${table.name} OWNER TO ${table.owner};`,
+        ...sequences.map((seq) => `ALTER SEQUENCE ${seq.name} OWNER TO ${seq.owner};`),
+        ...grantStatements(table.name, catalog.grants.get(table.oid) ?? []),
+      ].join("\n")
+    );
+  }
+
+  return [...statements, ...foreignKeys].join("\n\n") + "\n";
+}
+
+/**
+ * CREATE TABLE for a table, a child of INHERITS, or a partition.
+ */
+function createTable(table: TableRow, columns: ColumnRow[], constraints: ConstraintRow[]): string {
+  const kind = table.unlogged ? "CREATE UNLOGGED TABLE" : "CREATE TABLE";
+  let sql: string;
+
+  if (table.partition_bound) {
+    sql = `${kind} ${table.name} PARTITION OF ${table.parents![0]}\n${table.partition_bound}`;
+  } else {
+    const elements = [
+      // Inherited columns come from the parents
+      ...columns.filter((col) => col.local).map(columnDefinition),
+      ...constraints
+        .filter((con) => con.contype === "c")
+        .map((con) => `CONSTRAINT ${con.name} ${con.definition}`),
+    ];
+    sql = `${kind} ${table.name} (\n${elements.map((e) => `    ${e}`).join(",\n")}\n)`;
+    if (table.parents) {
+      sql += `\nINHERITS (${table.parents.join(", ")})`;
+    }
+  }
+
+  if (table.partition_key) sql += `\nPARTITION BY ${table.partition_key}`;
+  if (table.reloptions) sql += `\nWITH (${table.reloptions.join(", ")})`;
+  if (table.tablespace) sql += `\nTABLESPACE ${table.tablespace}`;
+  return sql + ";";
+}
+
+function columnDefinition(col: ColumnRow): string {
+  let sql = `${col.name} ${col.type}`;
+  if (col.collation) sql += ` COLLATE ${col.collation}`;
+
+  if (col.generated === "s") {
+    sql += ` GENERATED ALWAYS AS (${col.default}) STORED`;
+  } else if (col.generated === "v") {
+    sql += ` GENERATED ALWAYS AS (${col.default}) VIRTUAL`;
+  } else if (col.identity) {
+    sql += ` GENERATED ${col.identity === "a" ? "ALWAYS" : "BY DEFAULT"} AS IDENTITY`;
+  } else if (col.default !== null) {
+    sql += ` DEFAULT ${col.default}`;
+  }
+
+  // Identity columns are always NOT NULL
+  if (col.not_null && !col.identity) sql += " NOT NULL";
+  return sql;
+}
+
+/**
+ * GRANT statements for table and column privileges, one per grantee.
+ */
+function grantStatements(tableName: string, grants: GrantRow[]): string[] {
+  const grouped = new Map<string, { grant: GrantRow; privileges: string[] }>();
+  for (const grant of grants) {
+    const key = `${grant.column}\0${grant.grantee}\0${grant.grantable}`;
+    const entry = grouped.get(key) ?? { grant, privileges: [] };
+    entry.privileges.push(grant.privilege);
+    grouped.set(key, entry);
+  }
+
+  return [...grouped.values()].map(({ grant, privileges }) => {
+    const what = grant.column
+      ? privileges.map((p) => `${p}(${grant.column})`).join(",")
+      : privileges.join(",");
+    return (
+      `GRANT ${what} ON TABLE ${tableName} TO ${grant.grantee}` +
+      `${grant.grantable ? " WITH GRANT OPTION" : ""};`
+    );
+  });
+}
+
+/**
+ * Order tables so that every table comes after the parents it inherits from.
+ */
+function parentsFirst(tables: TableRow[]): TableRow[] {
+  const pending = new Map(tables.map((t) => [t.name, t]));
+  const ordered: TableRow[] = [];
+
+  while (pending.size > 0) {
+    const ready = [...pending.values()].filter(
+      (t) => !t.parents?.some((parent) => pending.has(parent))
+    );
+    for (const table of ready) {
+      ordered.push(table);
+      pending.delete(table.name);
+    }
+  }
+  return ordered;
+}
+
+function groupByRelation<T extends { relid: number }>(rows: T[]): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.relid) ?? [];
+    group.push(row);
+    groups.set(row.relid, group);
+  }
+  return groups;
+}
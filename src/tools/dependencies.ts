@@ -0,0 +1,224 @@
+import { DatabaseManager, TransactionClient } from "../database.js";
+
+/**
+ * An object that depends on the table or column, directly or through other
+ * dependents. `dropBehavior` says what a DROP of the root object does to it:
+ * "automatic" dependents go with it, a "blocks" dependent makes the DROP fail
+ * without CASCADE, and "cascade" dependents are only dropped with CASCADE.
+ */
+export interface Dependent {
+  /** Object type as pg_identify_object names it, e.g. "view" or "table constraint". */
+  type: string;
+  name: string;
+  /** The object it depends on: the root or another dependent. */
+  dependsOn: string;
+  depth: number;
+  dependency: "normal" | "automatic" | "body mention";
+  dropBehavior: "automatic" | "blocks" | "cascade" | "unaffected";
+  blocksDrop: boolean;
+}
+
+export interface DependencyReport {
+  object: string;
+  /** Whether DROP TABLE / DROP COLUMN fails without CASCADE. */
+  dropBlocked: boolean;
+  dependents: Dependent[];
+}
+
+interface ObjectAddress {
+  classid: number;
+  objid: number;
+  objsubid: number;
+}
+
+/** A pg_depend row joined with pg_identify_object, and the frontier object it depends on. */
+interface DependencyRow extends ObjectAddress {
+  /** 1-based position in the frontier. */
+  source: number;
+  deptype: string;
+  type: string;
+  schema: string | null;
+  identity: string;
+}
+
+/** How far dependents are followed. */
+const MAX_DEPTH = 10;
+
+/**
+ * Tools for finding what depends on a table or column before changing it.
+ */
+export class DependencyTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Every view, materialized view, index, constraint, trigger, policy,
+   * sequence and function that depends on a table or one of its columns,
+   * followed recursively through pg_depend. View dependencies are recorded
+   * on their _RETURN rule in pg_rewrite and reported as the view itself.
+   *
+   * Functions are only tracked by PostgreSQL when they have an SQL-standard
+   * body or use the table's row type; functions whose source merely mentions
+   * the name are listed separately as "body mention" and do not block a DROP.
+   */
+  async objectDependencies(
+    table: string,
+    schema: string = "public",
+    column?: string
+  ): Promise<DependencyReport> {
+    return this.db.transaction(
+      async (client) => {
+        const root = await resolveRoot(client, table, schema, column);
+        const rootKey = key(root);
+        const rootName = column !== undefined ? `${schema}.${table}.${column}` : `${schema}.${table}`;
+
+        const dependents: Dependent[] = [];
+        // Objects reached so far, with the name and depth reported for their own
+        // dependents and whether DROP removes them without CASCADE
+        const seen = new Map<string, { name: string; depth: number; automatic: boolean }>([
+          [rootKey, { name: rootName, depth: 0, automatic: true }],
+        ]);
+        let frontier = [root];
+
+        for (let hop = 1; hop <= MAX_DEPTH && frontier.length > 0; hop++) {
+          const rows = await findDependents(client, frontier);
+          const next: ObjectAddress[] = [];
+
+          for (const row of rows) {
+            const target: ObjectAddress = {
+              classid: row.classid,
+              objid: row.objid,
+              objsubid: row.objsubid,
+            };
+            const targetKey = key(target);
+            // Columns of the table itself depend on it; they are not dependents
+            if (seen.has(targetKey) || (root.objsubid === 0 && target.objid === root.objid)) {
+              continue;
+            }
+
+            const parent = seen.get(key(frontier[row.source - 1]))!;
+            const automatic = parent.automatic && row.deptype !== "n";
+            // Internal parts (row types, toast tables, indexes backing
+            // constraints) are followed but reported as their owner
+            const hidden = row.deptype === "i" || row.type === "type" || row.schema === "pg_toast";
+            const depth = hidden ? parent.depth : parent.depth + 1;
+            seen.set(targetKey, { name: hidden ? parent.name : row.identity, depth, automatic });
+            next.push(target);
+
+            if (hidden) continue;
+            const dropBehavior = !parent.automatic ? "cascade" : automatic ? "automatic" : "blocks";
+            dependents.push({
+              type: row.type,
+              name: row.identity,
+              dependsOn: parent.name,
+              depth,
+              dependency: row.deptype === "n" ? "normal" : "automatic",
+              dropBehavior,
+              blocksDrop: dropBehavior === "blocks",
+            });
+          }
+          frontier = next;
+        }
+
+        const tracked = new Set(
+          dependents.filter((d) => d.type === "function").map((d) => d.name)
+        );
+        const mentions = await client.query<{ identity: string }>(
+          `SELECT (pg_identify_object('pg_proc'::regclass, p.oid, 0)).identity
+           FROM pg_proc p
+           JOIN pg_namespace n ON n.oid = p.pronamespace
+           JOIN pg_language l ON l.oid = p.prolang
+           WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+             AND l.lanname NOT IN ('c', 'internal')
+             AND p.prosrc ~* ('\\m' || regexp_replace($1, '([^[:alnum:]_])', '\\\\\\1', 'g') || '\\M')
+             AND ($2::text IS NULL OR p.prosrc ~* ('\\m' || regexp_replace($2, '([^[:alnum:]_])', '\\\\\\1', 'g') || '\\M'))
+           ORDER BY 1`,
+          [table, column ?? null]
+        );
+        for (const { identity } of mentions.rows) {
+          if (tracked.has(identity)) continue;
+          dependents.push({
+            type: "function",
+            name: identity,
+            dependsOn: rootName,
+            depth: 1,
+            dependency: "body mention",
+            dropBehavior: "unaffected",
+            blocksDrop: false,
+          });
+        }
+
+        return {
+          object: rootName,
+          dropBlocked: dependents.some((d) => d.blocksDrop),
+          dependents: dependents.sort((a, b) => a.depth - b.depth),
+        };
+      },
+      { readOnly: true }
+    );
+  }
+}
+
+function key(address: ObjectAddress): string {
+  return `${address.classid}/${address.objid}/${address.objsubid}`;
+}
+
+async function resolveRoot(
+  client: TransactionClient,
+  table: string,
+  schema: string,
+  column?: string
+): Promise<ObjectAddress> {
+  const result = await client.query<ObjectAddress & { found_column: boolean }>(
+    `SELECT 'pg_class'::regclass::oid AS classid, c.oid AS objid,
+      COALESCE(a.attnum, 0) AS objsubid, a.attnum IS NOT NULL AS found_column
+     FROM pg_class c
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     LEFT JOIN pg_attribute a
+       ON a.attrelid = c.oid AND a.attname = $3 AND a.attnum > 0 AND NOT a.attisdropped
+     WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'f')`,
+    [schema, table, column ?? null]
+  );
+  const row = result.rows[0];
+  if (!row) throw new Error(`Table "${schema}.${table}" not found.`);
+  if (column !== undefined && !row.found_column) {
+    throw new Error(`Column "${column}" not found in "${schema}.${table}".`);
+  }
+  return { classid: row.classid, objid: row.objid, objsubid: row.objsubid };
+}
+
+/**
+ * Direct dependents of each frontier object. A dependency on a whole
+ * relation (objsubid 0) includes dependencies on its columns. Rules are
+ * replaced by the view or materialized view they define. An object with both
+ * automatic and normal dependencies is dropped automatically, so the
+ * automatic one is kept.
+ */
+async function findDependents(
+  client: TransactionClient,
+  frontier: ObjectAddress[]
+): Promise<DependencyRow[]> {
+  const result = await client.query<DependencyRow>(
+    `WITH deps AS (
+       SELECT f.i::int AS source, d.deptype,
+         CASE WHEN r.oid IS NOT NULL THEN 'pg_class'::regclass::oid ELSE d.classid END AS classid,
+         COALESCE(r.ev_class, d.objid) AS objid,
+         CASE WHEN r.oid IS NOT NULL THEN 0 ELSE d.objsubid END AS objsubid
+       FROM unnest($1::oid[], $2::oid[], $3::int[]) WITH ORDINALITY AS f(classid, objid, objsubid, i)
+       JOIN pg_depend d
+         ON d.refclassid = f.classid AND d.refobjid = f.objid
+        AND (f.objsubid = 0 OR d.refobjsubid = f.objsubid)
+       LEFT JOIN pg_rewrite r ON d.classid = 'pg_rewrite'::regclass AND r.oid = d.objid
+       WHERE d.deptype IN ('n', 'a', 'i')
+     )
+     SELECT DISTINCT ON (classid, objid, objsubid)
+       source, deptype, classid, objid, objsubid, o.type, o.schema, o.identity
+     FROM deps, pg_identify_object(classid, objid, objsubid) o
+     ORDER BY classid, objid, objsubid, deptype = 'n', source`,
+    [
+      frontier.map((f) => f.classid),
+      frontier.map((f) => f.objid),
+      frontier.map((f) => f.objsubid),
+    ]
+  );
+  return result.rows.sort((a, b) => a.source - b.source || a.identity.localeCompare(b.identity));
+}
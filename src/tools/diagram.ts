@@ -0,0 +1,356 @@
+import { DatabaseManager } from "../database.js";
+
+/**
+ * Diagram formats: a Mermaid erDiagram or a Graphviz DOT digraph.
+ */
+export type DiagramFormat = "mermaid" | "dot";
+
+export const DIAGRAM_FORMATS = ["mermaid", "dot"] as const;
+
+/** MIME type of each diagram format. */
+export const DIAGRAM_MIME_TYPES: Record<DiagramFormat, string> = {
+  mermaid: "text/vnd.mermaid",
+  dot: "text/vnd.graphviz",
+};
+
+export interface DiagramOptions {
+  /** Start from these tables instead of the whole schema. */
+  tables?: string[];
+  /** How many foreign key hops to follow from `tables`, in either direction. */
+  hops?: number;
+}
+
+interface TableNode {
+  oid: number;
+  schema: string;
+  name: string;
+  columns: DiagramColumn[];
+}
+
+interface DiagramColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primaryKey: boolean;
+  foreignKey: boolean;
+  unique: boolean;
+}
+
+/**
+ * A foreign key from `child` to `parent`, with the cardinality at each end:
+ * every child row has zero or one (`parentOptional`) or exactly one parent,
+ * and each parent row has zero or one (`childUnique`) or any number of children.
+ */
+interface Relationship {
+  name: string;
+  child: number;
+  parent: number;
+  childColumns: string[];
+  parentColumns: string[];
+  parentOptional: boolean;
+  childUnique: boolean;
+}
+
+/**
+ * Tools for drawing entity-relationship diagrams from foreign keys.
+ */
+export class DiagramTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Draw the tables of a schema and the foreign keys between them. With
+   * `tables`, start from those tables and follow foreign keys in both
+   * directions for `hops` steps, possibly into other schemas.
+   */
+  async schemaDiagram(
+    schema: string = "public",
+    format: DiagramFormat = "mermaid",
+    options: DiagramOptions = {}
+  ): Promise<string> {
+    const { tables: start, hops = 1 } = options;
+
+    return this.db.transaction(
+      async (client) => {
+        // Each FK with its column pairs in key order, and whether its columns
+        // are all NOT NULL and exactly covered by a unique index
+        const fks = await client.query<{
+          name: string;
+          child: number;
+          parent: number;
+          child_columns: string[];
+          parent_columns: string[];
+          nullable: boolean;
+          unique: boolean;
+        }>(
+          `SELECT k.conname AS name, k.conrelid AS child, k.confrelid AS parent,
+            array_agg(ca.attname::text ORDER BY u.ord) AS child_columns,
+            array_agg(pa.attname::text ORDER BY u.ord) AS parent_columns,
+            bool_or(NOT ca.attnotnull) AS nullable,
+            EXISTS (
+              SELECT 1 FROM pg_index i
+              WHERE i.indrelid = k.conrelid AND i.indisunique AND i.indpred IS NULL
+                AND i.indnkeyatts = cardinality(k.conkey)
+                AND (i.indkey::int2[])[0:i.indnkeyatts - 1] @> k.conkey
+            ) AS unique
+           FROM pg_constraint k
+           JOIN pg_class c ON c.oid = k.conrelid
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           JOIN pg_class pc ON pc.oid = k.confrelid
+           JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+           CROSS JOIN LATERAL unnest(k.conkey, k.confkey) WITH ORDINALITY AS u(conkey, confkey, ord)
+           JOIN pg_attribute ca ON ca.attrelid = k.conrelid AND ca.attnum = u.conkey
+           JOIN pg_attribute pa ON pa.attrelid = k.confrelid AND pa.attnum = u.confkey
+           WHERE k.contype = 'f' AND k.conparentid = 0
+             AND (n.nspname = $1 OR pn.nspname = $1 OR $2::text[] IS NOT NULL)
+           GROUP BY k.oid, k.conname, k.conrelid, k.confrelid, k.conkey
+           ORDER BY k.conname`,
+          [schema, start ?? null]
+        );
+
+        const tables = await client.query<{ oid: number; schema: string; name: string }>(
+          `SELECT c.oid, n.nspname AS schema, c.relname AS name
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE c.relkind IN ('r', 'p') AND NOT c.relispartition
+             AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+             AND (n.nspname = $1 OR c.oid IN (SELECT unnest($2::oid[])))`,
+          [schema, fks.rows.flatMap((fk) => [fk.child, fk.parent])]
+        );
+        const byOid = new Map(tables.rows.map((t) => [t.oid, t]));
+
+        let included: Set<number>;
+        if (start) {
+          const byName = new Map(
+            tables.rows.filter((t) => t.schema === schema).map((t) => [t.name, t.oid])
+          );
+          const missing = start.filter((name) => !byName.has(name));
+          if (missing.length > 0) {
+            throw new Error(`Table(s) not found in schema "${schema}": ${missing.join(", ")}.`);
+          }
+          included = reachable(
+            start.map((name) => byName.get(name)!),
+            fks.rows.map((fk) => [fk.child, fk.parent]),
+            hops
+          );
+        } else {
+          included = new Set(tables.rows.filter((t) => t.schema === schema).map((t) => t.oid));
+        }
+
+        const relationships: Relationship[] = fks.rows
+          .filter((fk) => included.has(fk.child) && included.has(fk.parent) && byOid.has(fk.parent))
+          .map((fk) => ({
+            name: fk.name,
+            child: fk.child,
+            parent: fk.parent,
+            childColumns: fk.child_columns,
+            parentColumns: fk.parent_columns,
+            parentOptional: fk.nullable,
+            childUnique: fk.unique,
+          }));
+
+        const columns = await client.query<{
+          relid: number;
+          name: string;
+          type: string;
+          nullable: boolean;
+          primary_key: boolean;
+          foreign_key: boolean;
+          unique: boolean;
+        }>(
+          `SELECT a.attrelid AS relid, a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            NOT a.attnotnull AS nullable,
+            EXISTS (SELECT 1 FROM pg_constraint k
+                    WHERE k.conrelid = a.attrelid AND k.contype = 'p' AND a.attnum = ANY(k.conkey)) AS primary_key,
+            EXISTS (SELECT 1 FROM pg_constraint k
+                    WHERE k.conrelid = a.attrelid AND k.contype = 'f' AND a.attnum = ANY(k.conkey)) AS foreign_key,
+            EXISTS (SELECT 1 FROM pg_constraint k
+                    WHERE k.conrelid = a.attrelid AND k.contype = 'u' AND k.conkey = ARRAY[a.attnum]) AS unique
+           FROM pg_attribute a
+           WHERE a.attrelid = ANY($1) AND a.attnum > 0 AND NOT a.attisdropped
+           ORDER BY a.attrelid, a.attnum`,
+          [[...included]]
+        );
+
+        const nodes = new Map<number, TableNode>();
+        for (const oid of included) {
+          const table = byOid.get(oid);
+          if (table) nodes.set(oid, { ...table, columns: [] });
+        }
+        for (const col of columns.rows) {
+          nodes.get(col.relid)?.columns.push({
+            name: col.name,
+            type: col.type,
+            nullable: col.nullable,
+            primaryKey: col.primary_key,
+            foreignKey: col.foreign_key,
+            unique: col.unique,
+          });
+        }
+
+        const ordered = [...nodes.values()].sort((a, b) =>
+          a.schema === b.schema ? a.name.localeCompare(b.name) : a.schema.localeCompare(b.schema)
+        );
+        return format === "dot"
+          ? renderDot(ordered, relationships, nodes, schema)
+          : renderMermaid(ordered, relationships, nodes, schema);
+      },
+      { readOnly: true }
+    );
+  }
+}
+
+/**
+ * Tables within `hops` foreign key steps of the start tables.
+ */
+function reachable(start: number[], edges: [number, number][], hops: number): Set<number> {
+  const seen = new Set(start);
+  let frontier = start;
+  for (let step = 0; step < hops && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const [child, parent] of edges) {
+      for (const [from, to] of [[child, parent], [parent, child]]) {
+        if (frontier.includes(from) && !seen.has(to)) {
+          seen.add(to);
+          next.push(to);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return seen;
+}
+
+/**
+ * Table names are only qualified when they are outside the diagram's schema.
+ */
+function displayName(table: TableNode, schema: string): string {
+  return table.schema === schema ? table.name : `${table.schema}.${table.name}`;
+}
+
+function renderMermaid(
+  tables: TableNode[],
+  relationships: Relationship[],
+  nodes: Map<number, TableNode>,
+  schema: string
+): string {
+  const id = mermaidIds(tables, schema);
+  const lines = ["erDiagram"];
+
+  for (const table of tables) {
+    lines.push(`    ${id(table)} {`);
+    for (const col of table.columns) {
+      const keys = [col.primaryKey && "PK", col.foreignKey && "FK", col.unique && "UK"]
+        .filter(Boolean)
+        .join(", ");
+      lines.push(
+        `        ${mermaidWord(col.type)} ${mermaidWord(col.name)}` +
+          (keys ? ` ${keys}` : "") +
+          (col.nullable ? "" : ` "not null"`)
+      );
+    }
+    lines.push("    }");
+  }
+
+  for (const rel of relationships) {
+    const parentEnd = rel.parentOptional ? "|o" : "||";
+    const childEnd = rel.childUnique ? "o|" : "o{";
+    lines.push(
+      `    ${id(nodes.get(rel.parent)!)} ${parentEnd}--${childEnd} ${id(nodes.get(rel.child)!)} : "${mermaidLabel(rel.childColumns.join(", "))}"`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+function renderDot(
+  tables: TableNode[],
+  relationships: Relationship[],
+  nodes: Map<number, TableNode>,
+  schema: string
+): string {
+  const id = (table: TableNode) => dotString(displayName(table, schema));
+  const lines = [
+    "digraph schema {",
+    "    rankdir=LR;",
+    '    node [shape=plain, fontname="Helvetica"];',
+    '    edge [dir=both, fontname="Helvetica", fontsize=10];',
+    "",
+  ];
+
+  for (const table of tables) {
+    const rows = table.columns.map((col) => {
+      const keys = [col.primaryKey && "PK", col.foreignKey && "FK", col.unique && "UK"]
+        .filter(Boolean)
+        .join(" ");
+      return (
+        `<tr><td port="${html(col.name)}" align="left">${col.primaryKey ? `<b>${html(col.name)}</b>` : html(col.name)}</td>` +
+        `<td align="left">${html(col.type)}${col.nullable ? "" : " not null"}</td>` +
+        `<td>${keys}</td></tr>`
+      );
+    });
+    lines.push(
+      `    ${id(table)} [label=<<table border="0" cellborder="1" cellspacing="0" cellpadding="4">` +
+        `<tr><td colspan="3" bgcolor="lightgrey"><b>${html(displayName(table, schema))}</b></td></tr>` +
+        `${rows.join("")}</table>>];`
+    );
+  }
+  lines.push("");
+
+  // Crow's foot ends: the arrowhead sits at the parent, the tail at the child
+  for (const rel of relationships) {
+    const child = nodes.get(rel.child)!;
+    const parent = nodes.get(rel.parent)!;
+    lines.push(
+      `    ${id(child)}:${dotString(rel.childColumns[0])} -> ${id(parent)}:${dotString(rel.parentColumns[0])} ` +
+        `[arrowhead=${rel.parentOptional ? "teeodot" : "teetee"}, ` +
+        `arrowtail=${rel.childUnique ? "teeodot" : "crowodot"}, label=${dotString(rel.name)}];`
+    );
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Mermaid entity names, attribute types and attribute names are bare words.
+ */
+function mermaidWord(text: string): string {
+  return text.replace(/[^A-Za-z0-9_()[\]-]+/g, "_");
+}
+
+/**
+ * Entity names for the tables. Different names can map to the same word
+ * (`sales.orders` and `sales_orders`), so later tables get a numeric suffix.
+ */
+function mermaidIds(tables: TableNode[], schema: string): (table: TableNode) => string {
+  const ids = new Map<TableNode, string>();
+  const taken = new Set<string>();
+  for (const table of tables) {
+    const base = mermaidWord(displayName(table, schema));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    taken.add(id);
+    ids.set(table, id);
+  }
+  return (table) => ids.get(table)!;
+}
+
+/**
+ * Mermaid labels are double-quoted with no escape, so quotes and line breaks are replaced.
+ */
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, "'").replace(/[\r\n]+/g, " ");
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function html(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
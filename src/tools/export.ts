@@ -0,0 +1,260 @@
+import { randomBytes } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdir, readdir, readFile, rm, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { DatabaseManager, QueryTimeouts, timeoutsFromEnv } from "../database.js";
+import { createEncoder, FORMAT_FILE_TYPES, ResultFormat } from "../formats.js";
+import { MaskingPolicy } from "../masking.js";
+import { ColumnInfo, ResultSerializer } from "../serialization.js";
+import { SqlClassifier, stripTrailingSemicolon } from "../sql/classifier.js";
+
+export interface ExportedFile {
+  id: string;
+  format: ResultFormat;
+  mimeType: string;
+  rowCount: number;
+  bytes: number;
+  createdAt: string;
+  /** Resource URI the client can read the file from. */
+  uri: string;
+}
+
+export interface ExportLimits {
+  /** Largest export file, in bytes. */
+  maxBytes: number;
+  /** Exports kept per session; another export deletes the oldest. */
+  maxFiles: number;
+  /** Export files older than this are deleted, whichever session wrote them. */
+  ttlMs: number;
+}
+
+/** Rows fetched from the cursor per round trip while exporting. */
+const EXPORT_BATCH_SIZE = 1000;
+
+/** Names of the files export_query writes, so the expiry sweep leaves other files alone. */
+const EXPORT_FILE_NAME = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-[0-9a-f]{8}\.\w+$/;
+
+/**
+ * Directory export files are written to (DB_EXPLORER_EXPORT_DIR).
+ */
+export function exportDirFromEnv(): string {
+  return (
+    process.env.DB_EXPLORER_EXPORT_DIR || join(homedir(), ".config", "db-explorer", "exports")
+  );
+}
+
+/**
+ * Read export limits from the environment.
+ */
+export function exportLimitsFromEnv(): ExportLimits {
+  const read = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return Number.isInteger(value) && value > 0 ? value : fallback;
+  };
+  return {
+    maxBytes: read("DB_EXPLORER_EXPORT_MAX_BYTES", 100 * 1024 * 1024),
+    maxFiles: read("DB_EXPLORER_EXPORT_MAX_FILES", 10),
+    ttlMs: read("DB_EXPLORER_EXPORT_TTL_MS", 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Files exported by one session, served back as db://exports/{id} resources.
+ * Only the session that created an export can read it. Files are deleted
+ * once they expire, when the session has too many, and when it closes.
+ */
+export class ExportStore {
+  private files = new Map<string, ExportedFile>();
+
+  constructor(
+    readonly dir: string = exportDirFromEnv(),
+    readonly limits: ExportLimits = exportLimitsFromEnv()
+  ) {}
+
+  /**
+   * Register a new export, deleting the session's oldest exports beyond the
+   * limit and any expired export file in the directory.
+   */
+  async add(file: ExportedFile): Promise<void> {
+    this.files.set(file.id, file);
+    const excess = [...this.files.values()].slice(0, Math.max(0, this.files.size - this.limits.maxFiles));
+    await Promise.all(excess.map((old) => this.remove(old)));
+    await this.removeExpired();
+  }
+
+  async list(): Promise<ExportedFile[]> {
+    await this.removeExpired();
+    return [...this.files.values()];
+  }
+
+  /**
+   * Read the contents of an export.
+   */
+  async read(id: string): Promise<{ file: ExportedFile; text: string }> {
+    await this.removeExpired();
+    const file = this.files.get(id);
+    if (!file) {
+      throw new Error(
+        `Unknown or expired export "${id}". Exports are deleted after ${this.limits.ttlMs}ms.`
+      );
+    }
+    return { file, text: await readFile(this.pathOf(file), "utf8") };
+  }
+
+  /**
+   * Delete every export of the session.
+   */
+  async clear(): Promise<void> {
+    await Promise.all([...this.files.values()].map((file) => this.remove(file)));
+  }
+
+  /**
+   * Location of an export's file on the server; never shown to clients.
+   */
+  pathOf(file: Pick<ExportedFile, "id" | "format">): string {
+    return join(this.dir, `${file.id}.${FORMAT_FILE_TYPES[file.format].extension}`);
+  }
+
+  private async remove(file: ExportedFile): Promise<void> {
+    this.files.delete(file.id);
+    await rm(this.pathOf(file), { force: true });
+  }
+
+  /**
+   * Delete expired exports: the session's own, and files left in the
+   * directory by other sessions or earlier runs of the server.
+   */
+  private async removeExpired(): Promise<void> {
+    const cutoff = Date.now() - this.limits.ttlMs;
+    for (const file of this.files.values()) {
+      if (Date.parse(file.createdAt) < cutoff) await this.remove(file);
+    }
+
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return;
+    }
+    await Promise.all(
+      names
+        .filter((name) => EXPORT_FILE_NAME.test(name))
+        .map(async (name) => {
+          const path = join(this.dir, name);
+          const info = await stat(path).catch(() => null);
+          // Best effort: a file that cannot be deleted now is retried on the next sweep
+          if (info && info.mtimeMs < cutoff) await rm(path, { force: true }).catch(() => undefined);
+        })
+    );
+  }
+}
+
+/**
+ * Tools for writing full query results to files.
+ */
+export class ExportTools {
+  constructor(
+    private db: DatabaseManager,
+    private exports: ExportStore,
+    private classifier: SqlClassifier = SqlClassifier.fromEnv(),
+    private masking: MaskingPolicy | null = null
+  ) {}
+
+  /**
+   * Stream the full result of a read-only query to a file through a
+   * server-side cursor, and register the file with the session's exports.
+   */
+  async exportQuery(
+    sql: string,
+    format: ResultFormat,
+    maxRows?: number,
+    timeouts: QueryTimeouts = {}
+  ): Promise<ExportedFile> {
+    this.classifier.assertReadOnly(sql);
+    // SHOW cannot be declared as a cursor, and its single row needs no export
+    if (this.classifier.classify(sql).statementType === "SHOW") {
+      throw new Error("SHOW cannot be exported. Use run_query, or SELECT current_setting('name').");
+    }
+
+    const { mimeType } = FORMAT_FILE_TYPES[format];
+    const id = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}`;
+    const path = this.exports.pathOf({ id, format });
+    await mkdir(this.exports.dir, { recursive: true, mode: 0o700 });
+
+    const cursor = await this.db.declareCursor(
+      stripTrailingSemicolon(sql),
+      undefined,
+      timeoutsFromEnv().idleInTransactionTimeoutMs,
+      timeouts
+    );
+    const { db, masking } = this;
+    const { maxBytes } = this.exports.limits;
+    const encoder = createEncoder(format);
+    const serializer = ResultSerializer.for(db);
+    let rowCount = 0;
+    let bytes = 0;
+
+    // The file's contents, one chunk per batch, fetched as the file stream takes them
+    async function* contents(): AsyncGenerator<string> {
+      let columns: ColumnInfo[] | null = null;
+      const counted = (chunk: string) => {
+        bytes += Buffer.byteLength(chunk);
+        if (bytes > maxBytes) {
+          throw new Error(
+            `Export exceeds ${maxBytes} bytes (DB_EXPLORER_EXPORT_MAX_BYTES). Narrow the query or set max_rows.`
+          );
+        }
+        return chunk;
+      };
+
+      while (maxRows === undefined || rowCount < maxRows) {
+        const batch = maxRows === undefined
+          ? EXPORT_BATCH_SIZE
+          : Math.min(EXPORT_BATCH_SIZE, maxRows - rowCount);
+        const result = await db.fetchCursor(cursor, batch, timeouts);
+
+        let chunk = "";
+        if (!columns) {
+          columns = await serializer.describeColumns(result.fields);
+          const visible = masking ? masking.apply(columns, []).columns : columns;
+          chunk += encoder.begin(visible.map((c) => c.name));
+        }
+        const decoded = await serializer.decodeRows(result.fields, result.rows);
+        const rows = masking ? masking.apply(columns, decoded).rows : decoded;
+        for (const row of rows) {
+          chunk += encoder.row(row);
+        }
+        if (chunk) yield counted(chunk);
+
+        rowCount += result.rows.length;
+        if (result.rows.length < batch) break;
+      }
+      const end = encoder.end();
+      if (end) yield counted(end);
+    }
+
+    try {
+      // pipeline destroys the file stream on failure, including open and write errors
+      await pipeline(contents(), createWriteStream(path, { mode: 0o600 }));
+    } catch (error) {
+      await rm(path, { force: true });
+      throw error;
+    } finally {
+      await this.db.closeCursor(cursor);
+    }
+
+    const file: ExportedFile = {
+      id,
+      format,
+      mimeType,
+      rowCount,
+      bytes,
+      createdAt: new Date().toISOString(),
+      uri: `db://exports/${id}`,
+    };
+    await this.exports.add(file);
+    return file;
+  }
+}
@@ -1,4 +1,5 @@
 import { DatabaseManager } from "../database.js";
+import { SqlClassifier } from "../sql/classifier.js";
 
 export interface IndexSuggestion {
   table: string;
@@ -29,7 +30,10 @@ export interface TableBloat {
  * Tools for analyzing and optimizing database performance.
  */
 export class OptimizationTools {
-  constructor(private db: DatabaseManager) {}
+  constructor(
+    private db: DatabaseManager,
+    private classifier: SqlClassifier = SqlClassifier.fromEnv()
+  ) {}
 
   /**
    * Analyze a query's execution plan and suggest indexes.
@@ -38,6 +42,8 @@ export class OptimizationTools {
     sql: string,
     schema: string = "public"
   ): Promise<IndexSuggestion[]> {
+    this.classifier.assertReadOnly(sql);
+
     const suggestions: IndexSuggestion[] = [];
 
     // Get the query plan
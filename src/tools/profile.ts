@@ -0,0 +1,418 @@
+import { randomInt } from "node:crypto";
+import { escapeIdentifier } from "pg";
+import { DatabaseManager, QueryTimeouts, TransactionClient } from "../database.js";
+import { MaskAction, MaskingPolicy } from "../masking.js";
+
+export interface TableProfile {
+  schema: string;
+  table: string;
+  /** Planner row estimate (pg_class.reltuples); null if never analyzed. */
+  estimatedRows: number | null;
+  lastAnalyze: string | null;
+  /** The TABLESAMPLE pass, or null if it was skipped. */
+  sample: { method: "SYSTEM"; percent: number; rows: number } | null;
+  columns: ColumnProfile[];
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: string;
+  nullable: boolean;
+  /** How the column's values are masked, if at all. Dropped columns show no values. */
+  masked?: MaskAction;
+  /** Planner statistics from pg_stats; null if the column has not been analyzed. */
+  stats: ColumnStats | null;
+  sample?: ColumnSample;
+}
+
+export interface ColumnStats {
+  nullFraction: number;
+  /** pg_stats.n_distinct: a count if positive, minus the fraction of rows if negative. */
+  distinct: number;
+  /** n_distinct as a number of values, using the table's row estimate. */
+  distinctEstimate: number | null;
+  mostCommon?: { value: unknown; frequency: number }[];
+  /** Histogram bounds, reduced to at most 11 evenly spaced bounds. */
+  histogramBounds?: unknown[];
+  /** Correlation between physical row order and value order (-1 to 1). */
+  correlation: number | null;
+}
+
+export interface ColumnSample {
+  nonNull: number;
+  min?: unknown;
+  max?: unknown;
+  /** Text length in characters, for string and JSON columns. */
+  length?: { min: number; max: number; avg: number; p50: number; p90: number };
+  /** Share of non-null values matching each detected format. */
+  formats?: Record<string, number>;
+  /** JSON value types and the most frequent object keys, for json/jsonb columns. */
+  json?: { types: Record<string, number>; keys: { key: string; share: number }[] };
+}
+
+export interface ProfileOptions extends QueryTimeouts {
+  /** Only profile these columns. */
+  columns?: string[];
+  /** Target number of sampled rows; 0 skips the sampling pass. */
+  sampleRows?: number;
+}
+
+interface ColumnRow {
+  name: string;
+  type: string;
+  nullable: boolean;
+  category: string;
+  base_type: string;
+}
+
+interface StatsRow {
+  attname: string;
+  null_frac: number;
+  n_distinct: number;
+  most_common_vals: string[] | null;
+  most_common_freqs: number[] | null;
+  histogram_bounds: string[] | null;
+  correlation: number | null;
+}
+
+/** Type categories whose values have a meaningful default sort order. */
+const SORTABLE_CATEGORIES = new Set(["B", "D", "E", "I", "N", "S", "T", "V"]);
+
+/** Formats detected in string values; each must match the whole value. */
+const VALUE_FORMATS: Record<string, RegExp> = {
+  email: /^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  url: /^[a-z][a-z0-9+.-]*:\/\/\S+$/i,
+  iso_date: /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?)?$/,
+  integer: /^[+-]?\d+$/,
+  decimal: /^[+-]?\d*\.\d+$/,
+  json: /^\s*[[{]/,
+};
+
+/** Most frequent JSON object keys reported per column. */
+const MAX_JSON_KEYS = 20;
+
+/**
+ * Tools for profiling the data in a table from planner statistics and a
+ * sample of its rows.
+ */
+export class ProfileTools {
+  constructor(
+    private db: DatabaseManager,
+    private masking: MaskingPolicy | null = null
+  ) {}
+
+  /**
+   * Profile the columns of a table: pg_stats for every column, plus min/max,
+   * value lengths and detected formats from a TABLESAMPLE pass. Everything
+   * runs in one read-only transaction under the usual timeouts.
+   */
+  async profileTable(
+    table: string,
+    schema: string = "public",
+    options: ProfileOptions = {}
+  ): Promise<TableProfile | null> {
+    const { columns: only, sampleRows = 1000, ...timeouts } = options;
+
+    return this.db.transaction(
+      async (client) => {
+        const relation = await client.query<{
+          oid: number;
+          reltuples: number;
+          last_analyze: string | null;
+        }>(
+          `SELECT c.oid, c.reltuples::float8 AS reltuples,
+            greatest(s.last_analyze, s.last_autoanalyze)::text AS last_analyze
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           LEFT JOIN pg_stat_all_tables s ON s.relid = c.oid
+           WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'm')`,
+          [schema, table]
+        );
+        const rel = relation.rows[0];
+        if (!rel) return null;
+
+        const columnResult = await client.query<ColumnRow>(
+          `SELECT a.attname AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            NOT a.attnotnull AS nullable,
+            coalesce(b.typcategory, t.typcategory) AS category,
+            coalesce(b.typname, t.typname) AS base_type
+           FROM pg_attribute a
+           JOIN pg_type t ON t.oid = a.atttypid
+           LEFT JOIN pg_type b ON b.oid = t.typbasetype AND t.typtype = 'd'
+           WHERE a.attrelid = $1 AND a.attnum > 0 AND NOT a.attisdropped
+           ORDER BY a.attnum`,
+          [rel.oid]
+        );
+        const columns = only
+          ? columnResult.rows.filter((c) => only.includes(c.name))
+          : columnResult.rows;
+
+        const statsResult = await client.query<StatsRow>(
+          `SELECT DISTINCT ON (attname)
+            attname, null_frac, n_distinct,
+            most_common_vals::text::text[] AS most_common_vals,
+            most_common_freqs,
+            histogram_bounds::text::text[] AS histogram_bounds,
+            correlation
+           FROM pg_stats
+           WHERE schemaname = $1 AND tablename = $2
+           ORDER BY attname, inherited DESC`,
+          [schema, table]
+        );
+        const stats = new Map(statsResult.rows.map((s) => [s.attname, s]));
+
+        const estimatedRows = rel.reltuples >= 0 ? rel.reltuples : null;
+        const profiles = columns.map((column) => {
+          const rule = this.masking?.ruleFor(column.name, { schema, table, column: column.name });
+          const row = stats.get(column.name);
+          const profile: ColumnProfile = {
+            name: column.name,
+            type: column.type,
+            nullable: column.nullable,
+            ...(rule && { masked: rule.action }),
+            stats: row ? this.columnStats(row, estimatedRows, schema, table) : null,
+          };
+          return profile;
+        });
+
+        let sample: TableProfile["sample"] = null;
+        if (sampleRows > 0 && columns.length > 0) {
+          // SYSTEM samples whole pages, so ask for twice the target and cut at the LIMIT
+          const percent = estimatedRows && estimatedRows > sampleRows
+            ? Math.max(0.0001, Math.min(100, (200 * sampleRows) / estimatedRows))
+            : 100;
+          const rows = await this.sampleColumns(
+            client,
+            schema,
+            table,
+            columns,
+            profiles,
+            { percent, limit: sampleRows, seed: randomInt(2 ** 31) }
+          );
+          sample = { method: "SYSTEM", percent: Number(percent.toPrecision(3)), rows };
+        }
+
+        return {
+          schema,
+          table,
+          estimatedRows,
+          lastAnalyze: rel.last_analyze,
+          sample,
+          columns: profiles,
+        };
+      },
+      { ...timeouts, readOnly: true }
+    );
+  }
+
+  private columnStats(
+    row: StatsRow,
+    estimatedRows: number | null,
+    schema: string,
+    table: string
+  ): ColumnStats {
+    const stats: ColumnStats = {
+      nullFraction: row.null_frac,
+      distinct: row.n_distinct,
+      distinctEstimate:
+        row.n_distinct >= 0
+          ? row.n_distinct
+          : estimatedRows === null
+            ? null
+            : Math.round(-row.n_distinct * estimatedRows),
+      correlation: row.correlation,
+    };
+
+    const source = { schema, table, column: row.attname };
+    const mostCommon = row.most_common_vals && this.maskValues(row.most_common_vals, source);
+    if (mostCommon) {
+      stats.mostCommon = mostCommon.slice(0, 10).map((value, i) => ({
+        value,
+        frequency: row.most_common_freqs?.[i] ?? 0,
+      }));
+    }
+    const bounds = row.histogram_bounds && this.maskValues(row.histogram_bounds, source);
+    if (bounds) {
+      stats.histogramBounds = evenlySpaced(bounds, 11);
+    }
+    return stats;
+  }
+
+  /**
+   * Read a TABLESAMPLE of the table and fill in the sample section of each
+   * profile. Returns the number of sampled rows.
+   */
+  private async sampleColumns(
+    client: TransactionClient,
+    schema: string,
+    table: string,
+    columns: ColumnRow[],
+    profiles: ColumnProfile[],
+    sample: { percent: number; limit: number; seed: number }
+  ): Promise<number> {
+    // REPEATABLE makes both queries read the same sample
+    const from =
+      `(SELECT ${columns.map((c, i) => `${escapeIdentifier(c.name)} AS c${i}`).join(", ")}` +
+      ` FROM ${escapeIdentifier(schema)}.${escapeIdentifier(table)}` +
+      ` TABLESAMPLE SYSTEM ($1) REPEATABLE ($2) LIMIT $3) AS sample`;
+    const params = [sample.percent, sample.seed, sample.limit];
+
+    const sortable = columns.map((c, i) =>
+      profiles[i].masked !== "drop" &&
+      (SORTABLE_CATEGORIES.has(c.category) || c.base_type === "uuid")
+    );
+    const summary = await client.query<Record<string, string | null>>(
+      `WITH sample AS MATERIALIZED (SELECT * FROM ${from})
+       SELECT count(*) AS rows, ${columns
+         .map((_, i) =>
+           [
+             `count(c${i}) AS n${i}`,
+             ...(sortable[i]
+               ? [
+                   `(SELECT c${i} FROM sample WHERE c${i} IS NOT NULL ORDER BY c${i} LIMIT 1)::text AS min${i}`,
+                   `(SELECT c${i} FROM sample WHERE c${i} IS NOT NULL ORDER BY c${i} DESC LIMIT 1)::text AS max${i}`,
+                 ]
+               : []),
+           ].join(", ")
+         )
+         .join(", ")}
+       FROM sample`,
+      params
+    );
+    const totals = summary.rows[0];
+
+    const textual = columns.flatMap((c, i) =>
+      profiles[i].masked !== "drop" &&
+      (c.category === "S" || c.base_type === "json" || c.base_type === "jsonb")
+        ? [i]
+        : []
+    );
+    const values = textual.length > 0
+      ? (
+          await client.query<Record<string, string | null>>(
+            `SELECT ${textual.map((i) => `c${i}::text AS c${i}`).join(", ")} FROM ${from}`,
+            params
+          )
+        ).rows
+      : [];
+
+    columns.forEach((column, i) => {
+      const profile = profiles[i];
+      const result: ColumnSample = { nonNull: Number(totals[`n${i}`]) };
+
+      if (sortable[i] && totals[`min${i}`] !== null) {
+        const source = { schema, table, column: column.name };
+        const [min, max] = this.maskValues([totals[`min${i}`], totals[`max${i}`]], source) ?? [];
+        result.min = min;
+        result.max = max;
+      }
+      if (textual.includes(i)) {
+        const texts = values
+          .map((row) => row[`c${i}`])
+          .filter((v): v is string => v !== null);
+        Object.assign(result, describeText(texts, column.category === "S"));
+      }
+      profile.sample = result;
+    });
+
+    return Number(totals.rows);
+  }
+
+  private maskValues(
+    values: unknown[],
+    source: { schema: string; table: string; column: string }
+  ): unknown[] | null {
+    return this.masking ? this.masking.applyToColumn(values, source) : values;
+  }
+}
+
+/**
+ * Length distribution, detected formats and JSON shape of text values.
+ */
+function describeText(
+  texts: string[],
+  detectFormats: boolean
+): Pick<ColumnSample, "length" | "formats" | "json"> {
+  if (texts.length === 0) return {};
+
+  const lengths = texts.map((t) => [...t].length).sort((a, b) => a - b);
+  const percentile = (p: number) => lengths[Math.min(lengths.length - 1, Math.floor(p * lengths.length))];
+  const described: Pick<ColumnSample, "length" | "formats" | "json"> = {
+    length: {
+      min: lengths[0],
+      max: lengths[lengths.length - 1],
+      avg: round(lengths.reduce((sum, n) => sum + n, 0) / lengths.length),
+      p50: percentile(0.5),
+      p90: percentile(0.9),
+    },
+  };
+
+  const documents: unknown[] = [];
+  if (detectFormats) {
+    const formats: Record<string, number> = {};
+    for (const [format, pattern] of Object.entries(VALUE_FORMATS)) {
+      let matches = 0;
+      for (const text of texts) {
+        if (!pattern.test(text)) continue;
+        if (format === "json") {
+          try {
+            documents.push(JSON.parse(text));
+          } catch {
+            continue;
+          }
+        }
+        matches++;
+      }
+      if (matches > 0) formats[format] = round(matches / texts.length);
+    }
+    described.formats = formats;
+  } else {
+    documents.push(...texts.map((text) => JSON.parse(text) as unknown));
+  }
+
+  if (documents.length > 0) {
+    described.json = jsonShape(documents);
+  }
+  return described;
+}
+
+/**
+ * Count JSON value types and how often each top-level object key appears.
+ */
+function jsonShape(documents: unknown[]): NonNullable<ColumnSample["json"]> {
+  const types: Record<string, number> = {};
+  const keys = new Map<string, number>();
+  let objects = 0;
+
+  for (const doc of documents) {
+    const type = doc === null ? "null" : Array.isArray(doc) ? "array" : typeof doc;
+    types[type] = (types[type] ?? 0) + 1;
+    if (type === "object") {
+      objects++;
+      for (const key of Object.keys(doc as object)) {
+        keys.set(key, (keys.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  return {
+    types,
+    keys: [...keys]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_JSON_KEYS)
+      .map(([key, count]) => ({ key, share: round(count / objects) })),
+  };
+}
+
+function evenlySpaced<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) =>
+    items[Math.round((i * (items.length - 1)) / (count - 1))]
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -1,10 +1,18 @@
-import { DatabaseManager } from "../database.js";
+import { CursorStore } from "../cursors.js";
+import { DatabaseManager, QueryTimeouts } from "../database.js";
+import { ColumnInfo, ResultSerializer } from "../serialization.js";
+import { SqlClassifier, stripTrailingSemicolon, UnsafeQueryError } from "../sql/classifier.js";
 
 export interface QueryResultFormatted {
-  columns: string[];
+  columns: ColumnInfo[];
   rows: Record<string, unknown>[];
   rowCount: number;
   executionTimeMs: number;
+  /** True if the page stopped early because it reached the response byte cap. */
+  truncatedByBytes: boolean;
+  /** Cursor handle for fetch_more, present while more rows remain. */
+  cursor?: string;
+  cursorExpiresAt?: string;
 }
 
 export interface QueryPlan {
@@ -18,31 +26,49 @@ export interface QueryPlan {
  * Tools for executing and analyzing SQL queries.
  */
 export class QueryTools {
-  constructor(private db: DatabaseManager) {}
+  constructor(
+    private db: DatabaseManager,
+    private classifier: SqlClassifier = SqlClassifier.fromEnv(),
+    private cursors: CursorStore = new CursorStore()
+  ) {}
 
   /**
-   * Execute a read-only SQL query and return formatted results.
+   * Execute a read-only SQL query through a server-side cursor and return
+   * the first page. If more rows remain, the result carries a cursor handle
+   * to read the rest with CursorStore.fetchMore.
    */
   async executeQuery(
     sql: string,
     params?: unknown[],
-    limit: number = 100
+    pageSize: number = 100,
+    timeouts: QueryTimeouts = {}
   ): Promise<QueryResultFormatted> {
     // Validate: block destructive operations
-    this.validateReadOnly(sql);
-
-    // Add LIMIT if not present and it's a SELECT
-    const normalizedSql = this.ensureLimit(sql, limit);
+    const classification = this.classifier.classify(sql);
+    if (!classification.readOnly) {
+      throw new UnsafeQueryError(classification.violation);
+    }
 
+    const statement = stripTrailingSemicolon(sql);
     const start = performance.now();
-    const result = await this.db.queryReadOnly(normalizedSql, params);
-    const executionTimeMs = Math.round(performance.now() - start);
 
+    // SHOW cannot be declared as a cursor; it returns a single row anyway
+    if (classification.statementType === "SHOW") {
+      const result = await this.db.queryReadOnly(statement, params, timeouts);
+      return {
+        columns: await ResultSerializer.for(this.db).describeColumns(result.fields),
+        rows: result.rows,
+        rowCount: result.rows.length,
+        executionTimeMs: Math.round(performance.now() - start),
+        truncatedByBytes: false,
+      };
+    }
+
+    const page = await this.cursors.open(this.db, statement, params, pageSize, timeouts);
     return {
-      columns: result.fields.map((f) => f.name),
-      rows: result.rows,
-      rowCount: result.rowCount ?? 0,
-      executionTimeMs,
+      ...page,
+      rowCount: page.rows.length,
+      executionTimeMs: Math.round(performance.now() - start),
     };
   }
 
@@ -51,9 +77,10 @@ export class QueryTools {
    */
   async explainQuery(
     sql: string,
-    analyze: boolean = false
+    analyze: boolean = false,
+    timeouts: QueryTimeouts = {}
   ): Promise<QueryPlan> {
-    this.validateReadOnly(sql);
+    this.classifier.assertReadOnly(sql);
 
     const explainPrefix = analyze
       ? "EXPLAIN (ANALYZE, BUFFERS, FORMAT JSON)"
@@ -61,7 +88,9 @@ export class QueryTools {
 
     const start = performance.now();
     const result = await this.db.queryReadOnly<{ "QUERY PLAN": unknown[] }>(
-      `${explainPrefix} ${sql}`
+      `${explainPrefix} ${sql}`,
+      undefined,
+      timeouts
     );
     const executionTimeMs = Math.round(performance.now() - start);
 
@@ -91,7 +120,7 @@ export class QueryTools {
     planNodeType: string;
     details: string;
   }> {
-    this.validateReadOnly(sql);
+    this.classifier.assertReadOnly(sql);
 
     const result = await this.db.queryReadOnly<{ "QUERY PLAN": unknown[] }>(
       `EXPLAIN (FORMAT JSON) ${sql}`
@@ -112,44 +141,6 @@ export class QueryTools {
     };
   }
 
-  /**
-   * Validate that a SQL query is read-only (no writes, DDL, etc.).
-   */
-  private validateReadOnly(sql: string): void {
-    const forbidden = [
-      /\b(INSERT|UPDATE|DELETE|DROP|ALTER|CREATE|TRUNCATE|GRANT|REVOKE)\b/i,
-      /\b(COPY)\b/i,
-      /\b(VACUUM|REINDEX|CLUSTER)\b/i,
-    ];
-
-    const cleaned = sql
-      .replace(/--.*$/gm, "")
-      .replace(/\/\*[\s\S]*?\*\//g, "");
-
-    for (const pattern of forbidden) {
-      if (pattern.test(cleaned)) {
-        throw new Error(
-          `Query contains forbidden operation. Only SELECT and read-only queries are allowed. ` +
-            `Detected pattern: ${pattern.source}`
-        );
-      }
-    }
-  }
-
-  /**
-   * Ensure a SELECT query has a LIMIT clause to prevent runaway results.
-   */
-  private ensureLimit(sql: string, limit: number): string {
-    const trimmed = sql.trim().replace(/;$/, "");
-    const isSelect = /^\s*SELECT/i.test(trimmed);
-
-    if (isSelect && !/\bLIMIT\b/i.test(trimmed)) {
-      return `${trimmed} LIMIT ${limit}`;
-    }
-
-    return trimmed;
-  }
-
   /**
    * Recursively extract potential performance warnings from a query plan.
    */
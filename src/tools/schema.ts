@@ -1,4 +1,7 @@
+import { escapeIdentifier } from "pg";
 import { DatabaseManager } from "../database.js";
+import { MaskAction, MaskingPolicy } from "../masking.js";
+import { Token, tokenize } from "../sql/lexer.js";
 
 export interface TableColumn {
   column_name: string;
@@ -7,6 +10,10 @@ export interface TableColumn {
   column_default: string | null;
   character_maximum_length: number | null;
   numeric_precision: number | null;
+  /** COMMENT ON COLUMN text. */
+  comment: string | null;
+  /** How the column's values are masked in query results, if at all. */
+  masking?: MaskAction;
 }
 
 export interface ForeignKey {
@@ -17,6 +24,101 @@ export interface ForeignKey {
   foreign_column_name: string;
 }
 
+export interface FunctionInfo {
+  schema: string;
+  name: string;
+  kind: "function" | "procedure" | "aggregate" | "window";
+  arguments: string;
+  return_type: string | null;
+  language: string;
+  volatility: "immutable" | "stable" | "volatile";
+  security_definer: boolean;
+}
+
+export interface FunctionDefinition extends FunctionInfo {
+  /** CREATE OR REPLACE statement; null for aggregates, which have none. */
+  definition: string | null;
+}
+
+export interface TriggerInfo {
+  trigger_name: string;
+  timing: "BEFORE" | "AFTER" | "INSTEAD OF";
+  events: string[];
+  level: "ROW" | "STATEMENT";
+  function: string;
+  enabled: "origin" | "disabled" | "replica" | "always";
+  is_constraint: boolean;
+  definition: string;
+}
+
+export interface EventTriggerInfo {
+  trigger_name: string;
+  event: string;
+  function: string;
+  enabled: "origin" | "disabled" | "replica" | "always";
+  tags: string[] | null;
+  owner: string;
+}
+
+/**
+ * A foreign key constraint with its columns paired in key order.
+ */
+export interface ForeignKeyConstraint {
+  name: string;
+  schema: string;
+  table: string;
+  columns: string[];
+  foreignSchema: string;
+  foreignTable: string;
+  foreignColumns: string[];
+}
+
+/**
+ * One join along a foreign key: "outgoing" follows it from the referencing
+ * table to the referenced one, "incoming" the other way.
+ */
+export interface JoinStep {
+  constraint: string;
+  direction: "outgoing" | "incoming";
+  from: string;
+  to: string;
+}
+
+export interface JoinPath {
+  tables: string[];
+  steps: JoinStep[];
+  /** FROM and JOIN ... ON ... clauses along the path. */
+  sql: string;
+}
+
+export interface ConstraintInfo {
+  constraint_name: string;
+  constraint_type:
+    | "PRIMARY KEY"
+    | "UNIQUE"
+    | "FOREIGN KEY"
+    | "CHECK"
+    | "EXCLUDE"
+    | "TRIGGER"
+    | "NOT NULL";
+  /** Constrained columns in key order; null when the constraint has none. */
+  columns: string | null;
+  /** Full definition from pg_get_constraintdef, e.g. "CHECK (price > 0) NOT VALID". */
+  definition: string;
+  deferrable: boolean;
+  initially_deferred: boolean;
+  /** False for constraints added NOT VALID and not validated since. */
+  validated: boolean;
+  /** Foreign keys only; null for other constraint types. */
+  foreign_table: string | null;
+  foreign_columns: string | null;
+  on_update: FkAction | null;
+  on_delete: FkAction | null;
+  match_type: "FULL" | "PARTIAL" | "SIMPLE" | null;
+}
+
+export type FkAction = "NO ACTION" | "RESTRICT" | "CASCADE" | "SET NULL" | "SET DEFAULT";
+
 export interface IndexInfo {
   index_name: string;
   index_definition: string;
@@ -25,6 +127,58 @@ export interface IndexInfo {
   columns: string;
 }
 
+/**
+ * A table in a list_tables listing with its partitions folded under it.
+ * Partitions outside the listed schema are schema-qualified.
+ */
+export interface FoldedTable {
+  table_name: string;
+  /** Every partition below the table, sub-partitions included. */
+  partitions?: string[];
+}
+
+/**
+ * A partitioned table and its partitions, nested as they are attached.
+ */
+export interface PartitionTree {
+  table: string;
+  partitionKey: string;
+  /** Size of the whole tree, partitions included. */
+  totalSize: string;
+  defaultPartition: string | null;
+  partitions: PartitionNode[];
+}
+
+export interface PartitionNode {
+  name: string;
+  /** FOR VALUES ... clause, or DEFAULT. */
+  bound: string;
+  isDefault: boolean;
+  /** PARTITION BY clause when the partition is itself partitioned. */
+  partitionKey: string | null;
+  /** Total size of the partition, or of its own partitions when it has any. */
+  size: string;
+  /** Null until the partition has been analyzed. */
+  estimatedRows: number | null;
+  defaultPartition?: string | null;
+  partitions?: PartitionNode[];
+}
+
+export interface MaterializedViewInfo {
+  view_name: string;
+  definition: string;
+  is_populated: boolean;
+  total_size: string;
+  estimated_row_count: number | null;
+  /**
+   * Modification time of the view's data file. REFRESH changes it, but so do
+   * VACUUM, hint-bit writes and checkpoints, so it is not the time of the
+   * last refresh. Null unless the connected role may call pg_stat_file.
+   */
+  data_file_modified_at: string | null;
+  indexes: { name: string; definition: string }[];
+}
+
 export interface TableStats {
   table_name: string;
   schema_name: string;
@@ -42,7 +196,10 @@ export interface TableStats {
  * Tools for exploring and introspecting database schemas.
  */
 export class SchemaTools {
-  constructor(private db: DatabaseManager) {}
+  constructor(
+    private db: DatabaseManager,
+    private masking: MaskingPolicy | null = null
+  ) {}
 
   /**
    * List all schemas in the current database.
@@ -71,6 +228,145 @@ export class SchemaTools {
     return result.rows.map((r) => r.table_name);
   }
 
+  /**
+   * List the tables in a schema with partitions folded under the table they
+   * belong to instead of listed on their own.
+   */
+  async listTablesFolded(schema: string = "public"): Promise<FoldedTable[]> {
+    const result = await this.db.queryReadOnly<{
+      table_name: string;
+      partitions: string[] | null;
+    }>(
+      `SELECT c.relname AS table_name,
+        CASE WHEN c.relkind = 'p' THEN (
+          SELECT array_agg(CASE WHEN pn.nspname = $1 THEN pc.relname::text
+                                ELSE pn.nspname || '.' || pc.relname END
+                           ORDER BY t.level, pc.relname)
+          FROM pg_partition_tree(c.oid) t
+          JOIN pg_class pc ON pc.oid = t.relid
+          JOIN pg_namespace pn ON pn.oid = pc.relnamespace
+          WHERE t.level > 0
+        ) END AS partitions
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relkind IN ('r', 'p')
+         AND (NOT c.relispartition OR NOT EXISTS (
+           -- Partitions of a table in another schema are listed here
+           SELECT 1 FROM pg_inherits i
+           JOIN pg_class p ON p.oid = i.inhparent
+           WHERE i.inhrelid = c.oid AND p.relnamespace = c.relnamespace
+         ))
+       ORDER BY c.relname`,
+      [schema]
+    );
+    return result.rows.map((r) =>
+      r.partitions ? { table_name: r.table_name, partitions: r.partitions } : { table_name: r.table_name }
+    );
+  }
+
+  /**
+   * Get the partitions of a partitioned table as a tree, with bounds, sizes
+   * and default partitions. Returns null when the table does not exist.
+   */
+  async listPartitions(table: string, schema: string = "public"): Promise<PartitionTree | null> {
+    const result = await this.db.queryReadOnly<{
+      oid: number;
+      parent: number | null;
+      name: string;
+      bound: string | null;
+      partition_key: string | null;
+      size: string;
+      reltuples: number;
+    }>(
+      `SELECT c.oid, t.parentrelid::oid AS parent,
+        CASE WHEN n.nspname = $1 THEN c.relname::text ELSE n.nspname || '.' || c.relname END AS name,
+        pg_get_expr(c.relpartbound, c.oid) AS bound,
+        CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+        pg_size_pretty(CASE WHEN c.relkind = 'p'
+          THEN (SELECT sum(pg_total_relation_size(d.relid)) FROM pg_partition_tree(c.oid) d)
+          ELSE pg_total_relation_size(c.oid) END) AS size,
+        c.reltuples
+       FROM pg_partition_tree(to_regclass(format('%I.%I', $1::text, $2::text))) t
+       JOIN pg_class c ON c.oid = t.relid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'f')
+       ORDER BY t.level, pg_get_expr(c.relpartbound, c.oid) = 'DEFAULT', c.relname`,
+      [schema, table]
+    );
+    const [root, ...rest] = result.rows;
+    if (!root?.partition_key) {
+      // pg_partition_tree has no rows for a table that is not partitioned
+      const exists = await this.db.queryReadOnly(
+        `SELECT 1 FROM pg_class c
+         JOIN pg_namespace n ON n.oid = c.relnamespace
+         WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'f')`,
+        [schema, table]
+      );
+      if (exists.rows.length === 0) return null;
+      throw new Error(`Table "${schema}.${table}" is not partitioned.`);
+    }
+
+    const children = (oid: number) => rest.filter((r) => r.parent === oid);
+    const build = (row: (typeof rest)[number]): PartitionNode => {
+      const node: PartitionNode = {
+        name: row.name,
+        bound: row.bound ?? "",
+        isDefault: row.bound === "DEFAULT",
+        partitionKey: row.partition_key,
+        size: row.size,
+        estimatedRows: row.reltuples >= 0 ? row.reltuples : null,
+      };
+      if (row.partition_key) {
+        node.partitions = children(row.oid).map(build);
+        node.defaultPartition = node.partitions.find((p) => p.isDefault)?.name ?? null;
+      }
+      return node;
+    };
+    const partitions = children(root.oid).map(build);
+
+    return {
+      table: root.name,
+      partitionKey: root.partition_key,
+      totalSize: root.size,
+      defaultPartition: partitions.find((p) => p.isDefault)?.name ?? null,
+      partitions,
+    };
+  }
+
+  /**
+   * List the materialized views in a schema with their definition, size,
+   * indexes and, where the server lets us see it, when their data file was
+   * last modified.
+   */
+  async listMaterializedViews(schema: string = "public"): Promise<MaterializedViewInfo[]> {
+    const result = await this.db.queryReadOnly<MaterializedViewInfo>(
+      `SELECT
+        c.relname AS view_name,
+        pg_get_viewdef(c.oid, true) AS definition,
+        c.relispopulated AS is_populated,
+        pg_size_pretty(pg_total_relation_size(c.oid)) AS total_size,
+        CASE WHEN c.reltuples >= 0 THEN c.reltuples END AS estimated_row_count,
+        CASE WHEN has_function_privilege('pg_catalog.pg_stat_file(text, boolean)', 'EXECUTE')
+          THEN (pg_stat_file(pg_relation_filepath(c.oid), true)).modification::text
+        END AS data_file_modified_at,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'name', ic.relname,
+            'definition', pg_get_indexdef(i.indexrelid)
+          ) ORDER BY ic.relname)
+          FROM pg_index i
+          JOIN pg_class ic ON ic.oid = i.indexrelid
+          WHERE i.indrelid = c.oid
+        ), '[]') AS indexes
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relkind = 'm'
+       ORDER BY c.relname`,
+      [schema]
+    );
+    return result.rows;
+  }
+
   /**
    * List all views in a given schema.
    */
@@ -93,23 +389,148 @@ export class SchemaTools {
     schema: string = "public"
   ): Promise<TableColumn[]> {
     const result = await this.db.queryReadOnly<TableColumn>(
-      `SELECT 
-        column_name, 
-        data_type, 
-        is_nullable, 
-        column_default,
-        character_maximum_length,
-        numeric_precision
-       FROM information_schema.columns 
-       WHERE table_schema = $1 AND table_name = $2
-       ORDER BY ordinal_position`,
+      `SELECT
+        c.column_name,
+        CASE WHEN c.data_type IN ('USER-DEFINED', 'ARRAY') OR c.domain_name IS NOT NULL
+          THEN format_type(a.atttypid, a.atttypmod)
+          ELSE c.data_type END AS data_type,
+        c.is_nullable,
+        c.column_default,
+        c.character_maximum_length,
+        c.numeric_precision,
+        col_description(a.attrelid, a.attnum) AS comment
+       FROM information_schema.columns c
+       JOIN pg_attribute a
+         ON a.attrelid = format('%I.%I', c.table_schema, c.table_name)::regclass
+        AND a.attname = c.column_name
+       WHERE c.table_schema = $1 AND c.table_name = $2
+       ORDER BY c.ordinal_position`,
+      [schema, table]
+    );
+
+    const masking = this.masking;
+    if (!masking) return result.rows;
+
+    return result.rows.map((column) => {
+      const rule = masking.ruleFor(column.column_name, {
+        schema,
+        table,
+        column: column.column_name,
+      });
+      return rule ? { ...column, masking: rule.action } : column;
+    });
+  }
+
+  /**
+   * Get the COMMENT ON TABLE text of a table or view, if it has one.
+   */
+  async getTableComment(table: string, schema: string = "public"): Promise<string | null> {
+    const result = await this.db.queryReadOnly<{ comment: string | null }>(
+      `SELECT obj_description(c.oid, 'pg_class') AS comment
+       FROM pg_class c
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2`,
+      [schema, table]
+    );
+    return result.rows[0]?.comment ?? null;
+  }
+
+  /**
+   * List the functions and procedures in a schema, leaving out those that
+   * belong to an extension.
+   */
+  async listFunctions(schema: string = "public"): Promise<FunctionInfo[]> {
+    const result = await this.db.queryReadOnly<FunctionInfo>(
+      `SELECT ${FUNCTION_COLUMNS}
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       JOIN pg_language l ON l.oid = p.prolang
+       WHERE n.nspname = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM pg_depend d
+           WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+         )
+       ORDER BY p.proname, pg_get_function_identity_arguments(p.oid)`,
+      [schema]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get the definition of a function or procedure. Without argument types,
+   * every overload with that name is returned.
+   */
+  async getFunctionDefinition(
+    name: string,
+    schema: string = "public",
+    argumentTypes?: string
+  ): Promise<FunctionDefinition[]> {
+    const result = await this.db.queryReadOnly<FunctionDefinition>(
+      `SELECT ${FUNCTION_COLUMNS},
+        CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END AS definition
+       FROM pg_proc p
+       JOIN pg_namespace n ON n.oid = p.pronamespace
+       JOIN pg_language l ON l.oid = p.prolang
+       WHERE n.nspname = $1 AND p.proname = $2
+         AND ($3::text IS NULL OR p.oid = to_regprocedure(format('%I.%I(%s)', $1, $2, $3)))
+       ORDER BY pg_get_function_identity_arguments(p.oid)`,
+      [schema, name, argumentTypes ?? null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * List the triggers on a table, leaving out the internal ones that
+   * implement foreign keys.
+   */
+  async listTriggers(table: string, schema: string = "public"): Promise<TriggerInfo[]> {
+    const result = await this.db.queryReadOnly<TriggerInfo>(
+      `SELECT
+        t.tgname AS trigger_name,
+        CASE WHEN t.tgtype & 2 <> 0 THEN 'BEFORE'
+             WHEN t.tgtype & 64 <> 0 THEN 'INSTEAD OF'
+             ELSE 'AFTER' END AS timing,
+        array_remove(ARRAY[
+          CASE WHEN t.tgtype & 4 <> 0 THEN 'INSERT' END,
+          CASE WHEN t.tgtype & 16 <> 0 THEN 'UPDATE' END,
+          CASE WHEN t.tgtype & 8 <> 0 THEN 'DELETE' END,
+          CASE WHEN t.tgtype & 32 <> 0 THEN 'TRUNCATE' END
+        ], NULL) AS events,
+        CASE WHEN t.tgtype & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END AS level,
+        t.tgfoid::regproc::text AS function,
+        ${enabledState("t.tgenabled")} AS enabled,
+        t.tgconstraint <> 0 AS is_constraint,
+        pg_get_triggerdef(t.oid, true) AS definition
+       FROM pg_trigger t
+       JOIN pg_class c ON c.oid = t.tgrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2 AND NOT t.tgisinternal
+       ORDER BY t.tgname`,
       [schema, table]
     );
     return result.rows;
   }
 
   /**
-   * Get foreign key relationships for a table.
+   * List the event triggers of the database.
+   */
+  async listEventTriggers(): Promise<EventTriggerInfo[]> {
+    const result = await this.db.queryReadOnly<EventTriggerInfo>(
+      `SELECT
+        e.evtname AS trigger_name,
+        e.evtevent AS event,
+        e.evtfoid::regproc::text AS function,
+        ${enabledState("e.evtenabled")} AS enabled,
+        e.evttags AS tags,
+        pg_get_userbyid(e.evtowner) AS owner
+       FROM pg_event_trigger e
+       ORDER BY e.evtname`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get foreign key relationships for a table, one row per column pair.
    */
   async getForeignKeys(
     table: string,
@@ -117,27 +538,123 @@ export class SchemaTools {
   ): Promise<ForeignKey[]> {
     const result = await this.db.queryReadOnly<ForeignKey>(
       `SELECT
-        tc.constraint_name,
-        kcu.column_name,
-        ccu.table_schema AS foreign_table_schema,
-        ccu.table_name AS foreign_table_name,
-        ccu.column_name AS foreign_column_name
-       FROM information_schema.table_constraints AS tc
-       JOIN information_schema.key_column_usage AS kcu
-         ON tc.constraint_name = kcu.constraint_name
-         AND tc.table_schema = kcu.table_schema
-       JOIN information_schema.constraint_column_usage AS ccu
-         ON ccu.constraint_name = tc.constraint_name
-         AND ccu.table_schema = tc.table_schema
-       WHERE tc.constraint_type = 'FOREIGN KEY'
-         AND tc.table_schema = $1
-         AND tc.table_name = $2
-       ORDER BY tc.constraint_name`,
+        k.conname AS constraint_name,
+        a.attname AS column_name,
+        fn.nspname AS foreign_table_schema,
+        fc.relname AS foreign_table_name,
+        fa.attname AS foreign_column_name
+       FROM pg_constraint k
+       JOIN pg_class c ON c.oid = k.conrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_class fc ON fc.oid = k.confrelid
+       JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+       CROSS JOIN LATERAL unnest(k.conkey, k.confkey) WITH ORDINALITY AS u(attnum, foreign_attnum, position)
+       JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = u.attnum
+       JOIN pg_attribute fa ON fa.attrelid = k.confrelid AND fa.attnum = u.foreign_attnum
+       WHERE k.contype = 'f'
+         AND n.nspname = $1
+         AND c.relname = $2
+       ORDER BY k.conname, u.position`,
       [schema, table]
     );
     return result.rows;
   }
 
+  /**
+   * List every foreign key constraint outside the system schemas. Foreign
+   * keys that partitions inherit from their parent are left out.
+   */
+  async listForeignKeyConstraints(): Promise<ForeignKeyConstraint[]> {
+    const result = await this.db.queryReadOnly<ForeignKeyConstraint>(
+      `SELECT
+        k.conname AS name,
+        n.nspname AS schema,
+        c.relname AS table,
+        array_agg(a.attname::text ORDER BY u.position) AS columns,
+        fn.nspname AS "foreignSchema",
+        fc.relname AS "foreignTable",
+        array_agg(fa.attname::text ORDER BY u.position) AS "foreignColumns"
+       FROM pg_constraint k
+       JOIN pg_class c ON c.oid = k.conrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       JOIN pg_class fc ON fc.oid = k.confrelid
+       JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+       CROSS JOIN LATERAL unnest(k.conkey, k.confkey) WITH ORDINALITY AS u(attnum, foreign_attnum, position)
+       JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = u.attnum
+       JOIN pg_attribute fa ON fa.attrelid = k.confrelid AND fa.attnum = u.foreign_attnum
+       WHERE k.contype = 'f' AND k.conparentid = 0
+         AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+       GROUP BY k.oid, k.conname, n.nspname, c.relname, fn.nspname, fc.relname
+       ORDER BY n.nspname, c.relname, k.conname`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Find the shortest paths between two tables over foreign keys, followed
+   * in either direction. Tables are "table" (in `schema`) or "schema.table";
+   * a name containing a dot is written in double quotes, e.g. public."my.table".
+   */
+  async findJoinPaths(
+    fromTable: string,
+    toTable: string,
+    schema: string = "public",
+    options: { maxHops?: number; limit?: number } = {}
+  ): Promise<JoinPath[]> {
+    const { maxHops = 4, limit = 5 } = options;
+    const start = parseTableName(fromTable, schema);
+    const from = tableKey(start.schema, start.table);
+    const target = parseTableName(toTable, schema);
+    const to = tableKey(target.schema, target.table);
+    if (from === to) {
+      throw new Error(`"${from}" is both ends of the path; give two different tables.`);
+    }
+
+    const graph = new Map<string, { fk: ForeignKeyConstraint; next: string; step: JoinStep }[]>();
+    const link = (a: string, b: string, fk: ForeignKeyConstraint, direction: JoinStep["direction"]) => {
+      const edges = graph.get(a) ?? [];
+      edges.push({ fk, next: b, step: { constraint: fk.name, direction, from: a, to: b } });
+      graph.set(a, edges);
+    };
+    for (const fk of await this.listForeignKeyConstraints()) {
+      const child = tableKey(fk.schema, fk.table);
+      const parent = tableKey(fk.foreignSchema, fk.foreignTable);
+      if (child === parent) continue;
+      link(child, parent, fk, "outgoing");
+      link(parent, child, fk, "incoming");
+    }
+
+    const fromStart = distances(graph, from, maxHops);
+    const length = fromStart.get(to);
+    if (length === undefined) return [];
+    const toEnd = distances(graph, to, maxHops);
+
+    // Walk from the start, only along edges that stay on a shortest path
+    const paths: { fk: ForeignKeyConstraint; step: JoinStep }[][] = [];
+    const walk = (table: string, trail: { fk: ForeignKeyConstraint; step: JoinStep }[]) => {
+      if (paths.length >= limit) return;
+      if (table === to) {
+        paths.push(trail);
+        return;
+      }
+      for (const edge of graph.get(table) ?? []) {
+        if (
+          fromStart.get(edge.next) === trail.length + 1 &&
+          toEnd.get(edge.next) === length - trail.length - 1
+        ) {
+          walk(edge.next, [...trail, edge]);
+        }
+      }
+    };
+    walk(from, []);
+
+    return paths.map((path) => ({
+      tables: [from, ...path.map(({ step }) => step.to)],
+      steps: path.map(({ step }) => step),
+      sql: joinClauses(start, path),
+    }));
+  }
+
   /**
    * List indexes on a table.
    */
@@ -194,34 +711,181 @@ export class SchemaTools {
   }
 
   /**
-   * Get all primary key and unique constraints for a table.
+   * Get every constraint on a table with its full definition, columns,
+   * deferrability and validation state, and for foreign keys the referenced
+   * table, actions and match type.
    */
   async getConstraints(
     table: string,
     schema: string = "public"
-  ): Promise<
-    { constraint_name: string; constraint_type: string; columns: string }[]
-  > {
-    const result = await this.db.queryReadOnly<{
-      constraint_name: string;
-      constraint_type: string;
-      columns: string;
-    }>(
+  ): Promise<ConstraintInfo[]> {
+    const result = await this.db.queryReadOnly<ConstraintInfo>(
       `SELECT
-        tc.constraint_name,
-        tc.constraint_type,
-        string_agg(kcu.column_name, ', ' ORDER BY kcu.ordinal_position) AS columns
-       FROM information_schema.table_constraints tc
-       JOIN information_schema.key_column_usage kcu
-         ON tc.constraint_name = kcu.constraint_name
-         AND tc.table_schema = kcu.table_schema
-       WHERE tc.table_schema = $1
-         AND tc.table_name = $2
-         AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'CHECK')
-       GROUP BY tc.constraint_name, tc.constraint_type
-       ORDER BY tc.constraint_type, tc.constraint_name`,
+        k.conname AS constraint_name,
+        CASE k.contype WHEN 'p' THEN 'PRIMARY KEY' WHEN 'u' THEN 'UNIQUE' WHEN 'f' THEN 'FOREIGN KEY'
+                       WHEN 'c' THEN 'CHECK' WHEN 'x' THEN 'EXCLUDE' WHEN 't' THEN 'TRIGGER'
+                       WHEN 'n' THEN 'NOT NULL' END AS constraint_type,
+        (SELECT string_agg(a.attname, ', ' ORDER BY u.ord)
+         FROM unnest(k.conkey) WITH ORDINALITY AS u(attnum, ord)
+         JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = u.attnum) AS columns,
+        pg_get_constraintdef(k.oid, true) AS definition,
+        k.condeferrable AS deferrable,
+        k.condeferred AS initially_deferred,
+        k.convalidated AS validated,
+        CASE WHEN k.contype = 'f' THEN quote_ident(fn.nspname) || '.' || quote_ident(f.relname) END AS foreign_table,
+        (SELECT string_agg(a.attname, ', ' ORDER BY u.ord)
+         FROM unnest(k.confkey) WITH ORDINALITY AS u(attnum, ord)
+         JOIN pg_attribute a ON a.attrelid = k.confrelid AND a.attnum = u.attnum) AS foreign_columns,
+        CASE WHEN k.contype = 'f' THEN ${fkAction("k.confupdtype")} END AS on_update,
+        CASE WHEN k.contype = 'f' THEN ${fkAction("k.confdeltype")} END AS on_delete,
+        CASE WHEN k.contype = 'f' THEN
+          CASE k.confmatchtype WHEN 'f' THEN 'FULL' WHEN 'p' THEN 'PARTIAL'
+                               WHEN 's' THEN 'SIMPLE' END
+        END AS match_type
+       FROM pg_constraint k
+       JOIN pg_class c ON c.oid = k.conrelid
+       JOIN pg_namespace n ON n.oid = c.relnamespace
+       LEFT JOIN pg_class f ON f.oid = k.confrelid
+       LEFT JOIN pg_namespace fn ON fn.oid = f.relnamespace
+       WHERE n.nspname = $1 AND c.relname = $2
+       ORDER BY array_position(ARRAY['p', 'u', 'f', 'c', 'x', 't', 'n']::"char"[], k.contype), k.conname`,
       [schema, table]
     );
     return result.rows;
   }
 }
+
+/**
+ * SQL naming a foreign key action from its pg_constraint code.
+ */
+function fkAction(column: string): string {
+  return `CASE ${column} WHEN 'a' THEN 'NO ACTION' WHEN 'r' THEN 'RESTRICT' WHEN 'c' THEN 'CASCADE'
+                     WHEN 'n' THEN 'SET NULL' WHEN 'd' THEN 'SET DEFAULT' END`;
+}
+
+/** Columns of FunctionInfo, selected from pg_proc p, pg_namespace n and pg_language l. */
+const FUNCTION_COLUMNS = `
+  n.nspname AS schema,
+  p.proname AS name,
+  CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate'
+                 WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+  pg_get_function_arguments(p.oid) AS arguments,
+  pg_get_function_result(p.oid) AS return_type,
+  l.lanname AS language,
+  CASE p.provolatile WHEN 'i' THEN 'immutable' WHEN 's' THEN 'stable'
+                     ELSE 'volatile' END AS volatility,
+  p.prosecdef AS security_definer`;
+
+/**
+ * SQL naming the firing state of a trigger from its enabled flag.
+ */
+function enabledState(column: string): string {
+  return `CASE ${column} WHEN 'D' THEN 'disabled' WHEN 'R' THEN 'replica'
+                     WHEN 'A' THEN 'always' ELSE 'origin' END`;
+}
+
+/**
+ * Split a table name that may be qualified with its schema. Unquoted names
+ * split at the first dot; names with double quotes are read with the SQL
+ * lexer, so "my.table" and "Sales"."Q1.2024" keep their dots.
+ */
+function parseTableName(name: string, schema: string): { schema: string; table: string } {
+  if (!name.includes('"')) {
+    const dot = name.indexOf(".");
+    return dot === -1
+      ? { schema, table: name }
+      : { schema: name.slice(0, dot), table: name.slice(dot + 1) };
+  }
+
+  const tokens = tokenize(name);
+  // Unquoted parts keep their case, as elsewhere in these tools
+  const part = (token: Token | undefined) =>
+    token?.type === "quoted_identifier"
+      ? token.value
+      : token?.type === "identifier"
+        ? token.text
+        : undefined;
+  const first = part(tokens[0]);
+  if (tokens.length === 1 && first !== undefined) return { schema, table: first };
+  const second = part(tokens[2]);
+  if (tokens.length === 3 && tokens[1].text === "." && first !== undefined && second !== undefined) {
+    return { schema: first, table: second };
+  }
+  throw new Error(`Invalid table name ${name}; use table, schema.table or "quoted"."names".`);
+}
+
+/**
+ * "schema.table", quoting a part that contains a dot or a double quote so
+ * that different tables never share a key.
+ */
+function tableKey(schema: string, table: string): string {
+  const part = (name: string) => (/[."]/.test(name) ? escapeIdentifier(name) : name);
+  return `${part(schema)}.${part(table)}`;
+}
+
+/**
+ * Breadth-first distances from a table, up to `maxHops` joins away.
+ */
+function distances(
+  graph: Map<string, { next: string }[]>,
+  start: string,
+  maxHops: number
+): Map<string, number> {
+  const dist = new Map([[start, 0]]);
+  let frontier = [start];
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const edge of graph.get(table) ?? []) {
+        if (!dist.has(edge.next)) {
+          dist.set(edge.next, hop);
+          next.push(edge.next);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return dist;
+}
+
+/**
+ * FROM and JOIN clauses for a path. A table that appears more than once, or
+ * whose name is taken by a table from another schema, gets a numbered alias.
+ */
+function joinClauses(
+  start: { schema: string; table: string },
+  path: { fk: ForeignKeyConstraint; step: JoinStep }[]
+): string {
+  const q = escapeIdentifier;
+  const used = new Set<string>();
+
+  // Returns the table reference for the FROM/JOIN clause and the alias to qualify columns with
+  const reference = ({ schema, table: name }: { schema: string; table: string }) => {
+    let alias = q(name);
+    for (let n = 2; used.has(alias); n++) {
+      alias = q(`${name}_${n}`);
+    }
+    used.add(alias);
+    const qualified = `${q(schema)}.${q(name)}`;
+    return { sql: alias === q(name) ? qualified : `${qualified} AS ${alias}`, alias };
+  };
+
+  const first = reference(start);
+  const lines = [`FROM ${first.sql}`];
+  let previous = first.alias;
+  for (const { fk, step } of path) {
+    const next = reference(
+      step.direction === "outgoing"
+        ? { schema: fk.foreignSchema, table: fk.foreignTable }
+        : { schema: fk.schema, table: fk.table }
+    );
+    const [child, parent] =
+      step.direction === "outgoing" ? [previous, next.alias] : [next.alias, previous];
+    const conditions = fk.columns.map(
+      (column, i) => `${child}.${q(column)} = ${parent}.${q(fk.foreignColumns[i])}`
+    );
+    lines.push(`JOIN ${next.sql} ON ${conditions.join(" AND ")}`);
+    previous = next.alias;
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,281 @@
+import { DatabaseManager } from "../database.js";
+
+export const SEARCH_KINDS = [
+  "table",
+  "view",
+  "materialized view",
+  "foreign table",
+  "column",
+  "function",
+  "enum",
+  "enum label",
+] as const;
+
+export type SearchKind = (typeof SEARCH_KINDS)[number];
+
+export interface SearchOptions {
+  /** Search one schema instead of every user schema. */
+  schema?: string;
+  kinds?: SearchKind[];
+  limit?: number;
+}
+
+/**
+ * One object matching a search, with the tool call that shows it.
+ */
+export interface SearchHit {
+  kind: SearchKind;
+  schema: string;
+  /** The table, view, function or enum the hit belongs to, schema-qualified. */
+  object: string;
+  /** Name of the column, label or function that matched; the object's own name otherwise. */
+  name: string;
+  matchedIn: ("name" | "parent name" | "comment" | "definition")[];
+  /** Excerpt of the comment or definition that matched. */
+  snippet?: string;
+  score: number;
+  open: { tool: string; arguments: Record<string, string> };
+}
+
+interface Candidate {
+  kind: SearchKind;
+  schema: string;
+  parent: string | null;
+  /** relkind of the relation a column belongs to. */
+  parent_kind: string | null;
+  name: string;
+  /** Argument types of a function. */
+  arguments: string | null;
+  comment: string | null;
+  /** View query or function source, only fetched when it contains a search term. */
+  body: string | null;
+}
+
+/** Weight of a term matching each part of a candidate. */
+const WEIGHTS = { name: 10, parent: 4, comment: 3, definition: 1 };
+
+/** Least trigram similarity for a misspelt term to count as a name match. */
+const FUZZY_THRESHOLD = 0.45;
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * SQL testing whether a text expression contains any search term ($2).
+ */
+function containsTerm(expression: string): string {
+  return `EXISTS (SELECT 1 FROM unnest($2::text[]) t WHERE strpos(lower(${expression}), t) > 0)`;
+}
+
+/**
+ * Ranked search over the names, comments and definitions of a database's
+ * tables, views, columns, functions and enums.
+ */
+export class SearchTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Search for `text`. Every word of it is matched against object names
+   * (exactly, by prefix, as a substring, or fuzzily to allow for typos), the
+   * name of the table or enum an item belongs to, COMMENT ON descriptions and
+   * view and function bodies. Hits matching every word rank first.
+   */
+  async searchSchema(text: string, options: SearchOptions = {}): Promise<SearchHit[]> {
+    const terms = tokenize(text);
+    if (terms.length === 0) throw new Error("Search text is empty.");
+    const { schema, kinds, limit = DEFAULT_LIMIT } = options;
+
+    const result = await this.db.queryReadOnly<Candidate>(
+      `WITH scope AS (
+         SELECT n.oid, n.nspname FROM pg_namespace n
+         WHERE ($1::text IS NULL OR n.nspname = $1)
+           AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+           AND n.nspname !~ '^pg_(toast|temp)_'
+       )
+       SELECT CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized view'
+                             WHEN 'f' THEN 'foreign table' ELSE 'table' END AS kind,
+         s.nspname AS schema, NULL AS parent, NULL AS parent_kind, c.relname AS name, NULL AS arguments,
+         obj_description(c.oid, 'pg_class') AS comment,
+         CASE WHEN c.relkind IN ('v', 'm') AND ${containsTerm("pg_get_viewdef(c.oid, true)")}
+           THEN pg_get_viewdef(c.oid, true) END AS body
+       FROM pg_class c JOIN scope s ON s.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+       UNION ALL
+       SELECT 'column', s.nspname, c.relname, c.relkind, a.attname, NULL,
+         col_description(c.oid, a.attnum), NULL
+       FROM pg_attribute a
+       JOIN pg_class c ON c.oid = a.attrelid
+       JOIN scope s ON s.oid = c.relnamespace
+       WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f') AND a.attnum > 0 AND NOT a.attisdropped
+       UNION ALL
+       SELECT 'function', s.nspname, NULL, NULL, p.proname, oidvectortypes(p.proargtypes),
+         obj_description(p.oid, 'pg_proc'), CASE WHEN ${containsTerm("p.prosrc")} THEN p.prosrc END
+       FROM pg_proc p JOIN scope s ON s.oid = p.pronamespace
+       WHERE NOT EXISTS (
+         SELECT 1 FROM pg_depend d
+         WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+       )
+       UNION ALL
+       SELECT 'enum', s.nspname, NULL, NULL, t.typname, NULL, obj_description(t.oid, 'pg_type'), NULL
+       FROM pg_type t JOIN scope s ON s.oid = t.typnamespace
+       WHERE t.typtype = 'e'
+       UNION ALL
+       SELECT 'enum label', s.nspname, t.typname, NULL, e.enumlabel, NULL, NULL, NULL
+       FROM pg_enum e
+       JOIN pg_type t ON t.oid = e.enumtypid
+       JOIN scope s ON s.oid = t.typnamespace`,
+      [schema ?? null, terms]
+    );
+
+    const hits: SearchHit[] = [];
+    for (const candidate of result.rows) {
+      if (kinds && !kinds.includes(candidate.kind)) continue;
+      const hit = score(candidate, terms);
+      if (hit) hits.push(hit);
+    }
+    return hits
+      .sort((a, b) => b.score - a.score || a.object.localeCompare(b.object) || a.name.localeCompare(b.name))
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Lowercase words of a name or search text. Identifiers are split on
+ * underscores and camelCase, so "customerEmail" and "customer_email" both
+ * give ["customer", "email"].
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+  return [...new Set(words)];
+}
+
+/** Drop a plural ending so "customers" matches "customer". */
+function stem(word: string): string {
+  return word.length > 3 ? word.replace(/(es|s)$/, "") : word;
+}
+
+/**
+ * Trigram similarity of two words, as pg_trgm computes it.
+ */
+function similarity(a: string, b: string): number {
+  const trigrams = (word: string) => {
+    const padded = `  ${word} `;
+    const set = new Set<string>();
+    for (let i = 0; i + 3 <= padded.length; i++) set.add(padded.slice(i, i + 3));
+    return set;
+  };
+  const x = trigrams(a);
+  const y = trigrams(b);
+  let shared = 0;
+  for (const t of x) if (y.has(t)) shared++;
+  return shared / (x.size + y.size - shared);
+}
+
+/**
+ * How well a name matches a term, from 0 to 1: an exact word (ignoring
+ * plurals), a word prefix, a substring, or a near miss.
+ */
+function nameMatch(name: string, words: string[], term: string): number {
+  const stemmed = stem(term);
+  if (words.some((w) => stem(w) === stemmed)) return 1;
+  if (words.some((w) => w.startsWith(term))) return 0.7;
+  if (name.toLowerCase().includes(term)) return 0.5;
+  const best = Math.max(0, ...words.map((w) => similarity(w, term)));
+  return best >= FUZZY_THRESHOLD ? 0.6 * best : 0;
+}
+
+function score(candidate: Candidate, terms: string[]): SearchHit | null {
+  const nameWords = tokenize(candidate.name);
+  const parentWords = candidate.parent ? tokenize(candidate.parent) : [];
+  const comment = candidate.comment?.toLowerCase() ?? "";
+  const body = candidate.body?.toLowerCase() ?? "";
+  const matchedIn = new Set<SearchHit["matchedIn"][number]>();
+  let snippetAt: { text: string; index: number; length: number } | null = null;
+  let total = 0;
+  let matchedTerms = 0;
+
+  for (const term of terms) {
+    const parts = [
+      { where: "name" as const, value: WEIGHTS.name * nameMatch(candidate.name, nameWords, term) },
+      {
+        where: "parent name" as const,
+        value: candidate.parent ? WEIGHTS.parent * nameMatch(candidate.parent, parentWords, term) : 0,
+      },
+      { where: "comment" as const, value: comment.includes(term) ? WEIGHTS.comment : 0 },
+      { where: "definition" as const, value: body.includes(term) ? WEIGHTS.definition : 0 },
+    ].filter((p) => p.value > 0);
+    if (parts.length === 0) continue;
+
+    matchedTerms++;
+    const best = parts.reduce((a, b) => (b.value > a.value ? b : a));
+    total += best.value;
+    matchedIn.add(best.where);
+    if (!snippetAt && (best.where === "comment" || best.where === "definition")) {
+      const text = best.where === "comment" ? candidate.comment! : candidate.body!;
+      snippetAt = { text, index: text.toLowerCase().indexOf(term), length: term.length };
+    }
+  }
+  if (matchedTerms === 0) return null;
+
+  // A name that is the whole search text, e.g. customer_email for "customer email"
+  if (nameWords.join(" ") === terms.join(" ")) total += WEIGHTS.name;
+  // Hits that match only some of the words rank below those matching all
+  total *= (matchedTerms / terms.length) ** 2;
+
+  const object =
+    candidate.kind === "function"
+      ? `${candidate.schema}.${candidate.name}(${candidate.arguments})`
+      : `${candidate.schema}.${candidate.parent ?? candidate.name}`;
+  return {
+    kind: candidate.kind,
+    schema: candidate.schema,
+    object,
+    name: candidate.name,
+    matchedIn: [...matchedIn],
+    ...(snippetAt && { snippet: excerpt(snippetAt.text, snippetAt.index, snippetAt.length) }),
+    score: Math.round(total * 100) / 100,
+    open: openWith(candidate),
+  };
+}
+
+/**
+ * Up to 40 characters either side of a match, on one line.
+ */
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 40);
+  const end = Math.min(text.length, index + length + 40);
+  return (
+    (start > 0 ? "…" : "") +
+    text.slice(start, end).replace(/\s+/g, " ").trim() +
+    (end < text.length ? "…" : "")
+  );
+}
+
+/**
+ * The tool call that shows a hit in full.
+ */
+function openWith(candidate: Candidate): SearchHit["open"] {
+  const { kind, schema } = candidate;
+  switch (kind) {
+    case "function":
+      return {
+        tool: "get_function_definition",
+        arguments: { schema, name: candidate.name, argument_types: candidate.arguments ?? "" },
+      };
+    case "enum":
+    case "enum label":
+      return { tool: "list_enums", arguments: { schema } };
+    case "materialized view":
+      return { tool: "list_materialized_views", arguments: { schema } };
+    case "column":
+      // information_schema, which describe_table reads, has no materialized views
+      return candidate.parent_kind === "m"
+        ? { tool: "list_materialized_views", arguments: { schema } }
+        : { tool: "describe_table", arguments: { schema, table: candidate.parent! } };
+    default:
+      return { tool: "describe_table", arguments: { schema, table: candidate.name } };
+  }
+}
@@ -0,0 +1,306 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { DatabaseManager } from "../database.js";
+
+/**
+ * The catalog state of one schema. Object names are keys, quoted the way
+ * PostgreSQL's quote_ident quotes them; tables, indexes, views and functions
+ * are schema-qualified.
+ */
+export interface SchemaSnapshot {
+  version: 1;
+  schema: string;
+  takenAt: string;
+  /** Where the snapshot was taken, as database@host:port. */
+  source: string;
+  tables: Record<string, TableSnapshot>;
+  views: Record<string, ViewSnapshot>;
+  /** Keyed by name and argument types, e.g. public.add(integer, integer). */
+  functions: Record<string, FunctionSnapshot>;
+}
+
+export interface TableSnapshot {
+  /** PARTITION BY clause of a partitioned table. */
+  partitionKey?: string;
+  /** Parent table and bound of a partition. */
+  partitionOf?: { parent: string; bound: string };
+  columns: Record<string, ColumnSnapshot>;
+  /** Constraints defined on the table itself, not cloned from a parent. */
+  constraints: Record<string, ConstraintSnapshot>;
+  /** CREATE INDEX statements of indexes that do not back a constraint. */
+  indexes: Record<string, string>;
+}
+
+export interface ColumnSnapshot {
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  identity: "ALWAYS" | "BY DEFAULT" | null;
+  generated: { expression: string; stored: boolean } | null;
+}
+
+export interface ConstraintSnapshot {
+  type: "PRIMARY KEY" | "UNIQUE" | "CHECK" | "FOREIGN KEY" | "EXCLUDE";
+  definition: string;
+}
+
+export interface ViewSnapshot {
+  materialized: boolean;
+  definition: string;
+}
+
+export interface FunctionSnapshot {
+  kind: "function" | "procedure";
+  /** CREATE OR REPLACE statement from pg_get_functiondef. */
+  definition: string;
+}
+
+const CONSTRAINT_TYPES: Record<string, ConstraintSnapshot["type"]> = {
+  p: "PRIMARY KEY",
+  u: "UNIQUE",
+  c: "CHECK",
+  f: "FOREIGN KEY",
+  x: "EXCLUDE",
+};
+
+/**
+ * Directory schema snapshots are saved in (DB_EXPLORER_SNAPSHOT_DIR).
+ */
+export function snapshotDirFromEnv(): string {
+  return (
+    process.env.DB_EXPLORER_SNAPSHOT_DIR || join(homedir(), ".config", "db-explorer", "snapshots")
+  );
+}
+
+/**
+ * Named snapshot files in the snapshot directory.
+ */
+export class SnapshotStore {
+  constructor(readonly dir: string = snapshotDirFromEnv()) {}
+
+  /**
+   * Save a snapshot as <name>.json, replacing any snapshot of that name.
+   */
+  async save(name: string, snapshot: SchemaSnapshot): Promise<string> {
+    const path = this.pathFor(name);
+    await mkdir(this.dir, { recursive: true, mode: 0o700 });
+    await writeFile(path, JSON.stringify(snapshot, null, 2) + "\n", { mode: 0o600 });
+    return path;
+  }
+
+  async load(name: string): Promise<SchemaSnapshot> {
+    const path = this.pathFor(name);
+    let text: string;
+    try {
+      text = await readFile(path, "utf8");
+    } catch {
+      const names = await this.list();
+      throw new Error(
+        `Unknown snapshot "${name}". ` +
+          (names.length > 0 ? `Available: ${names.join(", ")}.` : "No snapshots have been saved yet.")
+      );
+    }
+
+    const snapshot = JSON.parse(text) as SchemaSnapshot;
+    if (snapshot.version !== 1) {
+      throw new Error(`Snapshot "${name}" has unsupported version ${snapshot.version}.`);
+    }
+    return snapshot;
+  }
+
+  async list(): Promise<string[]> {
+    const files = await readdir(this.dir).catch(() => [] as string[]);
+    return files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) => f.slice(0, -".json".length))
+      .sort();
+  }
+
+  private pathFor(name: string): string {
+    if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+      throw new Error(
+        `Invalid snapshot name "${name}": use letters, digits, ".", "_" and "-".`
+      );
+    }
+    return join(this.dir, `${name}.json`);
+  }
+}
+
+/**
+ * Tools for capturing the catalog state of a schema.
+ */
+export class SnapshotTools {
+  constructor(private db: DatabaseManager) {}
+
+  /**
+   * Read the tables, columns, constraints, indexes, views and functions of a
+   * schema in one read-only transaction.
+   */
+  async takeSnapshot(schema: string = "public"): Promise<SchemaSnapshot> {
+    return this.db.transaction(
+      async (client) => {
+        const tables = await client.query<{
+          oid: number;
+          name: string;
+          partition_key: string | null;
+          parent: string | null;
+          bound: string | null;
+        }>(
+          `SELECT c.oid, quote_ident(n.nspname) || '.' || quote_ident(c.relname) AS name,
+            CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+            CASE WHEN c.relispartition THEN
+              (SELECT quote_ident(pn.nspname) || '.' || quote_ident(p.relname)
+               FROM pg_inherits i
+               JOIN pg_class p ON p.oid = i.inhparent
+               JOIN pg_namespace pn ON pn.oid = p.relnamespace
+               WHERE i.inhrelid = c.oid) END AS parent,
+            CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END AS bound
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE n.nspname = $1 AND c.relkind IN ('r', 'p')
+           ORDER BY c.relname`,
+          [schema]
+        );
+        const relids = tables.rows.map((t) => t.oid);
+
+        const columns = await client.query<{
+          relid: number;
+          name: string;
+          type: string;
+          not_null: boolean;
+          identity: string;
+          generated: string;
+          default: string | null;
+        }>(
+          `SELECT a.attrelid AS relid, quote_ident(a.attname) AS name,
+            format_type(a.atttypid, a.atttypmod) AS type,
+            a.attnotnull AS not_null, a.attidentity AS identity, a.attgenerated AS generated,
+            pg_get_expr(d.adbin, d.adrelid) AS default
+           FROM pg_attribute a
+           LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+           WHERE a.attrelid = ANY($1) AND a.attnum > 0 AND NOT a.attisdropped
+           ORDER BY a.attrelid, a.attnum`,
+          [relids]
+        );
+
+        // Constraint triggers are triggers, which snapshots do not cover, and
+        // cannot be recreated with ADD CONSTRAINT
+        const constraints = await client.query<{
+          relid: number;
+          name: string;
+          contype: string;
+          definition: string;
+        }>(
+          `SELECT conrelid AS relid, quote_ident(conname) AS name, contype,
+            pg_get_constraintdef(oid) AS definition
+           FROM pg_constraint
+           WHERE conrelid = ANY($1) AND contype NOT IN ('n', 't') AND conislocal AND conparentid = 0
+           ORDER BY conrelid, conname`,
+          [relids]
+        );
+
+        const indexes = await client.query<{ relid: number; name: string; definition: string }>(
+          `SELECT i.indrelid AS relid,
+            quote_ident(n.nspname) || '.' || quote_ident(ic.relname) AS name,
+            pg_get_indexdef(i.indexrelid) AS definition
+           FROM pg_index i
+           JOIN pg_class ic ON ic.oid = i.indexrelid
+           JOIN pg_namespace n ON n.oid = ic.relnamespace
+           WHERE i.indrelid = ANY($1)
+             AND NOT EXISTS (SELECT 1 FROM pg_constraint k WHERE k.conindid = i.indexrelid AND k.conrelid = i.indrelid)
+             AND NOT EXISTS (SELECT 1 FROM pg_inherits h WHERE h.inhrelid = i.indexrelid)
+           ORDER BY i.indrelid, ic.relname`,
+          [relids]
+        );
+
+        const views = await client.query<{ name: string; relkind: string; definition: string }>(
+          `SELECT quote_ident(n.nspname) || '.' || quote_ident(c.relname) AS name, c.relkind,
+            pg_get_viewdef(c.oid, true) AS definition
+           FROM pg_class c
+           JOIN pg_namespace n ON n.oid = c.relnamespace
+           WHERE n.nspname = $1 AND c.relkind IN ('v', 'm')
+           ORDER BY c.relname`,
+          [schema]
+        );
+
+        // Functions that belong to an extension come and go with it
+        const functions = await client.query<{ signature: string; prokind: string; definition: string }>(
+          `SELECT quote_ident(n.nspname) || '.' || quote_ident(p.proname) || '(' || pg_get_function_identity_arguments(p.oid) || ')' AS signature,
+            p.prokind, pg_get_functiondef(p.oid) AS definition
+           FROM pg_proc p
+           JOIN pg_namespace n ON n.oid = p.pronamespace
+           WHERE n.nspname = $1 AND p.prokind IN ('f', 'p')
+             AND NOT EXISTS (
+               SELECT 1 FROM pg_depend d
+               WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e'
+             )
+           ORDER BY 1`,
+          [schema]
+        );
+
+        const byOid = new Map<number, TableSnapshot>();
+        const snapshot: SchemaSnapshot = {
+          version: 1,
+          schema,
+          takenAt: new Date().toISOString(),
+          source: this.describeSource(),
+          tables: {},
+          views: {},
+          functions: {},
+        };
+
+        for (const table of tables.rows) {
+          const entry: TableSnapshot = {
+            ...(table.partition_key && { partitionKey: table.partition_key }),
+            ...(table.parent && { partitionOf: { parent: table.parent, bound: table.bound! } }),
+            columns: {},
+            constraints: {},
+            indexes: {},
+          };
+          snapshot.tables[table.name] = entry;
+          byOid.set(table.oid, entry);
+        }
+        for (const col of columns.rows) {
+          byOid.get(col.relid)!.columns[col.name] = {
+            type: col.type,
+            nullable: !col.not_null,
+            default: col.generated ? null : col.default,
+            identity: col.identity === "a" ? "ALWAYS" : col.identity === "d" ? "BY DEFAULT" : null,
+            generated: col.generated
+              ? { expression: col.default!, stored: col.generated === "s" }
+              : null,
+          };
+        }
+        for (const con of constraints.rows) {
+          byOid.get(con.relid)!.constraints[con.name] = {
+            type: CONSTRAINT_TYPES[con.contype],
+            definition: con.definition,
+          };
+        }
+        for (const index of indexes.rows) {
+          byOid.get(index.relid)!.indexes[index.name] = index.definition;
+        }
+        for (const view of views.rows) {
+          snapshot.views[view.name] = {
+            materialized: view.relkind === "m",
+            definition: view.definition,
+          };
+        }
+        for (const fn of functions.rows) {
+          snapshot.functions[fn.signature] = {
+            kind: fn.prokind === "p" ? "procedure" : "function",
+            definition: fn.definition,
+          };
+        }
+        return snapshot;
+      },
+      { readOnly: true }
+    );
+  }
+
+  private describeSource(): string {
+    const info = this.db.getConnectionInfo();
+    return info ? `${info.database}@${info.host}:${info.port}` : "unknown";
+  }
+}
@@ -0,0 +1,316 @@
+import { createHash, randomBytes } from "node:crypto";
+import { escapeIdentifier } from "pg";
+import { DatabaseManager, TransactionClient } from "../database.js";
+import { MaskingPolicy } from "../masking.js";
+import { ResultSerializer } from "../serialization.js";
+import { SqlClassifier, stripTrailingSemicolon, WriteStatement } from "../sql/classifier.js";
+
+export interface WritePreview {
+  statementType: string;
+  table: string;
+  rowCount: number;
+  /** Sample of changed rows. `before` is null for inserts, `after` for deletes. */
+  sample: { before: unknown; after: unknown }[];
+  confirmationToken: string;
+  expiresAt: string;
+}
+
+export interface WriteCommit {
+  statementType: string;
+  table: string;
+  rowCount: number;
+}
+
+/**
+ * One-time confirmation tokens, each tied to one exact statement,
+ * parameter list and connection.
+ */
+export class ConfirmationStore {
+  private tokens = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  constructor(private ttlMs: number = 5 * 60 * 1000) {}
+
+  /**
+   * Issue a token for a statement.
+   */
+  issue(fingerprint: string): { token: string; expiresAt: Date } {
+    this.purgeExpired();
+    const token = randomBytes(16).toString("hex");
+    const expiresAt = Date.now() + this.ttlMs;
+    this.tokens.set(token, { fingerprint, expiresAt });
+    return { token, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Use up a token. Throws unless it exists, has not expired and was issued
+   * for the same statement.
+   */
+  consume(token: string, fingerprint: string): void {
+    const entry = this.tokens.get(token);
+    this.tokens.delete(token);
+
+    if (!entry || entry.expiresAt < Date.now()) {
+      throw new Error(
+        "Invalid or expired confirmation token. Run execute_write without a token to get a new one."
+      );
+    }
+    if (entry.fingerprint !== fingerprint) {
+      throw new Error(
+        "Confirmation token was issued for a different statement. Run execute_write without a token to preview this one."
+      );
+    }
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt < now) this.tokens.delete(token);
+    }
+  }
+}
+
+/**
+ * Tools for guarded data changes: every statement is first run as a dry run
+ * that is rolled back, and only committed when repeated with the one-time
+ * confirmation token from that dry run.
+ */
+export class WriteTools {
+  constructor(
+    private db: DatabaseManager,
+    private confirmations: ConfirmationStore,
+    private classifier: SqlClassifier = SqlClassifier.fromEnv(),
+    private masking: MaskingPolicy | null = null
+  ) {}
+
+  /**
+   * Run a DML statement inside a transaction, sample the changed rows and
+   * roll back. Returns a confirmation token for committing it.
+   */
+  async preview(
+    sql: string,
+    params: unknown[] = [],
+    connection: string,
+    sampleSize: number = 5
+  ): Promise<WritePreview> {
+    const { statement, trimmed } = this.parse(sql);
+
+    const { rowCount, sample } = await this.db.transaction(
+      async (client) => {
+        if (statement.statementType === "MERGE" && !statement.hasReturning) {
+          // MERGE can only appear in a WITH clause with RETURNING
+          const result = await client.query(trimmed, params);
+          return { rowCount: result.rowCount ?? 0, sample: [] };
+        }
+
+        if (statement.hasReturning) {
+          return this.previewReturning(client, trimmed, params, sampleSize);
+        }
+
+        const pkColumns = statement.statementType === "UPDATE"
+          ? await this.primaryKeyColumns(client, statement.table)
+          : [];
+        const result = await client.query<{
+          sampled: boolean | null;
+          before: unknown;
+          after: unknown;
+          total: string;
+        }>(this.buildPreviewQuery(trimmed, statement, pkColumns, sampleSize), params);
+
+        let sample = result.rows
+          .filter((row) => row.sampled)
+          .map(({ before, after }) => ({ before, after }));
+        if (this.masking && sample.length > 0) {
+          const masking = this.masking;
+          const table = await this.resolveTable(client, statement.table);
+          const mask = (image: unknown) =>
+            image === null ? null : masking.applyToRecord(image as Record<string, unknown>, table);
+          sample = sample.map(({ before, after }) => ({ before: mask(before), after: mask(after) }));
+        }
+
+        return {
+          rowCount: Number(result.rows[0].total),
+          sample,
+        };
+      },
+      { commit: false }
+    );
+
+    const { token, expiresAt } = this.confirmations.issue(
+      fingerprint(this.target(connection), trimmed, params)
+    );
+
+    return {
+      statementType: statement.statementType,
+      table: statement.table,
+      rowCount,
+      sample,
+      confirmationToken: token,
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Commit a statement previously previewed, using its confirmation token.
+   */
+  async commit(
+    sql: string,
+    params: unknown[] = [],
+    connection: string,
+    confirmationToken: string
+  ): Promise<WriteCommit> {
+    const { statement, trimmed } = this.parse(sql);
+
+    this.confirmations.consume(
+      confirmationToken,
+      fingerprint(this.target(connection), trimmed, params)
+    );
+
+    const result = await this.db.transaction((client) => client.query(trimmed, params));
+    return {
+      statementType: statement.statementType,
+      table: statement.table,
+      rowCount: result.rowCount ?? 0,
+    };
+  }
+
+  /**
+   * Dry-run a statement with its own RETURNING list. The sample holds the
+   * returned columns, masked like query results by the table column each one
+   * comes from, so aliasing a masked column does not reveal it.
+   */
+  private async previewReturning(
+    client: TransactionClient,
+    sql: string,
+    params: unknown[],
+    sampleSize: number
+  ): Promise<{ rowCount: number; sample: WritePreview["sample"] }> {
+    const limit = Math.max(0, Math.floor(sampleSize));
+    const result = await client.queryArrays(
+      `WITH __changed AS (${sql})
+       SELECT t.total, s.*
+       FROM (SELECT count(*) AS total FROM __changed) t
+       LEFT JOIN LATERAL (SELECT true AS sampled, __changed.* FROM __changed LIMIT ${limit}) s ON true`,
+      params
+    );
+
+    // Rows are arrays because RETURNING may use any name, including total and sampled
+    const fields = result.fields.slice(2);
+    let rows = result.rows
+      .filter((row) => row[1])
+      .map((row) => Object.fromEntries(fields.map((f, i) => [f.name, row[i + 2]])));
+    if (this.masking && rows.length > 0) {
+      const columns = await ResultSerializer.for(this.db).describeColumns(fields);
+      rows = this.masking.apply(columns, rows).rows;
+    }
+
+    return {
+      rowCount: Number(result.rows[0][0]),
+      sample: rows.map((after) => ({ before: null, after })),
+    };
+  }
+
+  /**
+   * The alias with the server, database and role it is connected to, so a
+   * token stops working if the alias is reconnected somewhere else.
+   */
+  private target(alias: string): string {
+    const info = this.db.getConnectionInfo();
+    return JSON.stringify([alias, info?.host, info?.port, info?.database, info?.user]);
+  }
+
+  /**
+   * Classify a write and cut it down to the statement itself. Preview and
+   * commit both fingerprint this text, so they must trim it the same way.
+   */
+  private parse(sql: string): { statement: WriteStatement; trimmed: string } {
+    const statement = this.classifier.assertWrite(sql);
+    return { statement, trimmed: stripTrailingSemicolon(sql).trim() };
+  }
+
+  /**
+   * Wrap a statement without RETURNING in a data-modifying CTE so that only
+   * a sample of the changed rows comes back, together with the total count. The count is
+   * taken over all of __changed and the sample joined to it, so there is
+   * always one row, with `sampled` null when the sample is empty. For UPDATE,
+   * the sample joins the target table on its primary key: it still sees the
+   * pre-update snapshot, which yields the before image.
+   */
+  private buildPreviewQuery(
+    sql: string,
+    statement: WriteStatement,
+    pkColumns: string[],
+    sampleSize: number
+  ): string {
+    const limit = Math.max(0, Math.floor(sampleSize));
+    const withSample = (changed: string, select: string) => `WITH __changed AS (${changed})
+      SELECT s.sampled, s.before, s.after, t.total
+      FROM (SELECT count(*) AS total FROM __changed) t
+      LEFT JOIN LATERAL (SELECT true AS sampled, ${select} LIMIT ${limit}) s ON true`;
+
+    const changed = `${sql} RETURNING *`;
+
+    switch (statement.statementType) {
+      case "INSERT":
+        return withSample(changed, "NULL::jsonb AS before, to_jsonb(__changed) AS after FROM __changed");
+      case "DELETE":
+        return withSample(changed, "to_jsonb(__changed) AS before, NULL::jsonb AS after FROM __changed");
+      default: {
+        if (pkColumns.length === 0) {
+          return withSample(changed, "NULL::jsonb AS before, to_jsonb(__changed) AS after FROM __changed");
+        }
+        const on = pkColumns
+          .map((c) => `__old.${escapeIdentifier(c)} = __changed.${escapeIdentifier(c)}`)
+          .join(" AND ");
+        return withSample(
+          changed,
+          `to_jsonb(__old) AS before, to_jsonb(__changed) AS after
+           FROM __changed LEFT JOIN ${statement.table} AS __old ON ${on}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Resolve a table name as written in a statement to its schema and name.
+   */
+  private async resolveTable(
+    client: TransactionClient,
+    table: string
+  ): Promise<{ schema: string; table: string }> {
+    const result = await client.query<{ schema: string; table: string }>(
+      `SELECT n.nspname AS schema, c.relname AS table
+       FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+       WHERE c.oid = $1::regclass`,
+      [table]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Get the primary key columns of a table (empty if it has none).
+   */
+  private async primaryKeyColumns(
+    client: TransactionClient,
+    table: string
+  ): Promise<string[]> {
+    const result = await client.query<{ attname: string }>(
+      `SELECT a.attname
+       FROM pg_index i
+       JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+       WHERE i.indrelid = $1::regclass AND i.indisprimary
+       ORDER BY array_position(i.indkey, a.attnum)`,
+      [table]
+    );
+    return result.rows.map((r) => r.attname);
+  }
+}
+
+/**
+ * Identify a statement for confirmation: target connection, SQL text and
+ * parameters.
+ */
+function fingerprint(connection: string, sql: string, params: unknown[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify([connection, sql, params]))
+    .digest("hex");
+}
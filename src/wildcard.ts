@@ -0,0 +1,10 @@
+/**
+ * Compile a name pattern in which `*` matches any run of characters into a
+ * case-insensitive regular expression matching the whole name.
+ */
+export function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`^${escaped.join(".*")}$`, "i");
+}